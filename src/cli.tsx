@@ -6,14 +6,27 @@ import { pages } from '@ui/navConfig';
 import { FocusProvider } from '@context/FocusContext';
 import { NavigationProvider } from '@context/NavigationContext';
 import { ImportProvider } from '@context/ImportContext';
+import { CompareProvider } from '@context/CompareContext';
+import { isHeadlessCommand, runHeadless } from '@utils/headless';
 
 function main(): void {
+	const argv = process.argv.slice(2);
+	if (isHeadlessCommand(argv)) {
+		void runHeadless(argv).then((code) => { process.exitCode = code; }).catch((err: unknown) => {
+			// runHeadless maps expected failures to exit codes; anything else is a bug, but still a clean exit
+			process.stderr.write(`${err instanceof Error ? err.stack ?? err.message : String(err)}\n`);
+			process.exitCode = 1;
+		});
+		return;
+	}
 	render(
 		<EnvironmentProvider>
 			<FocusProvider>
 				<NavigationProvider>
 					<ImportProvider>
-						<AppLayout pages={pages} />
+						<CompareProvider>
+							<AppLayout pages={pages} />
+						</CompareProvider>
 					</ImportProvider>
 				</NavigationProvider>
 			</FocusProvider>
@@ -0,0 +1,97 @@
+import React, { createContext, useCallback, useContext, useMemo, useRef, useState } from 'react';
+import fs from 'node:fs';
+import type { OutputFile } from '@utils/outputs';
+import { parseExportFile } from '@utils/schema';
+import { compareSides, diffExportFiles, writeDiffReport, type DiffProgress, type DiffReport, type DiffSide } from '@utils/diff';
+import { CancelledError } from '@utils/shopify/client';
+
+export type CompareContextValue = {
+	report?: DiffReport;
+	reportPath?: string;
+	isRunning: boolean;
+	progress?: DiffProgress;
+	error?: string;
+	compare: (left: DiffSide, right: DiffSide, types: string[]) => void;
+	// Diff two export files without network access
+	compareFiles: (left: OutputFile, right: OutputFile) => void;
+	// Write the current report to outputs/ as JSON
+	saveReport: () => void;
+	cancel: () => void;
+	clear: () => void;
+};
+
+const CompareContext = createContext<CompareContextValue | undefined>(undefined);
+
+export function CompareProvider({ children }: { children: React.ReactNode }) {
+	const [report, setReport] = useState<DiffReport | undefined>(undefined);
+	const [reportPath, setReportPath] = useState<string | undefined>(undefined);
+	const [isRunning, setIsRunning] = useState<boolean>(false);
+	const [progress, setProgress] = useState<DiffProgress | undefined>(undefined);
+	const [error, setError] = useState<string | undefined>(undefined);
+	const abortRef = useRef<AbortController | undefined>(undefined);
+
+	const compare = useCallback((left: DiffSide, right: DiffSide, types: string[]) => {
+		if (isRunning) return;
+		setIsRunning(true);
+		setReport(undefined);
+		setReportPath(undefined);
+		setError(undefined);
+		setProgress(undefined);
+		const controller = new AbortController();
+		abortRef.current = controller;
+		void compareSides(left, right, { types, cwd: process.cwd(), onProgress: setProgress, signal: controller.signal }).then((result) => {
+			setReport(result);
+			setIsRunning(false);
+			setProgress(undefined);
+		}).catch((e) => {
+			setIsRunning(false);
+			setError(e instanceof CancelledError ? 'Compare cancelled' : String(e));
+		});
+	}, [isRunning]);
+
+	const compareFiles = useCallback((left: OutputFile, right: OutputFile) => {
+		if (isRunning) return;
+		setReportPath(undefined);
+		setProgress(undefined);
+		try {
+			const read = (f: OutputFile) => parseExportFile(fs.readFileSync(f.path, 'utf8')).file;
+			setReport(diffExportFiles(read(left), read(right), { left: left.name, right: right.name }));
+			setError(undefined);
+		} catch (e) {
+			setReport(undefined);
+			setError(String(e));
+		}
+	}, [isRunning]);
+
+	const saveReport = useCallback(() => {
+		if (!report) return;
+		try {
+			setReportPath(writeDiffReport(process.cwd(), report));
+		} catch (e) {
+			setError(String(e));
+		}
+	}, [report]);
+
+	const cancel = useCallback(() => abortRef.current?.abort(), []);
+
+	const clear = useCallback(() => {
+		setReport(undefined);
+		setReportPath(undefined);
+		setError(undefined);
+		setProgress(undefined);
+	}, []);
+
+	const value = useMemo<CompareContextValue>(() => ({ report, reportPath, isRunning, progress, error, compare, compareFiles, saveReport, cancel, clear }), [report, reportPath, isRunning, progress, error, compare, compareFiles, saveReport, cancel, clear]);
+
+	return (
+		<CompareContext.Provider value={value}>
+			{children}
+		</CompareContext.Provider>
+	);
+}
+
+export function useCompare(): CompareContextValue {
+	const ctx = useContext(CompareContext);
+	if (!ctx) throw new Error('useCompare must be used within CompareProvider');
+	return ctx;
+}
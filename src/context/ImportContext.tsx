@@ -1,10 +1,14 @@
-import React, { createContext, useContext, useMemo, useState, useCallback } from 'react';
+import React, { createContext, useContext, useMemo, useState, useCallback, useRef } from 'react';
 import fs from 'node:fs';
-import path from 'node:path';
 import type { OutputFile } from '@utils/outputs';
 import { parseExportFile, type ExportFile as ExportSchema, type ExportStats } from '@utils/schema';
-import { runImport, type ImportProgress, runImportOne } from '@utils/importer';
+import { runImport, type ConflictPolicy, type ConflictSkipReason, type ImportProgress, type ImportResumeState, runImportOne } from '@utils/importer';
 import { createShopifyClientFromEnv } from '@utils/shopify/env';
+import { CancelledError, type ThrottleStatus } from '@utils/shopify/client';
+import { buildImportResults, findLatestImportResults, recordPrunedEntries, resumeStateFromResults, writeImportResults } from '@utils/importResults';
+import { planImport, writeImportPlan, type ImportPlan } from '@utils/importPlan';
+import { findPruneCandidates, pruneEntries, type PruneCandidate } from '@utils/prune';
+import { createImportJournal, findLatestImportJournal, rollbackJournal, type ImportJournal } from '@utils/importJournal';
 
 export type ImportResult = { status: 'success' | 'skipped' | 'failed'; error?: string };
 
@@ -18,15 +22,49 @@ export type ImportContextValue = {
 	processed: Set<number>;
 	failed: Map<number, string>;
 	skipOnError: boolean;
+	conflictPolicy: ConflictPolicy;
+	// Entries the conflict policy left untouched in the current run
+	conflictSkips: Map<number, ConflictSkipReason>;
+	replaceBackReferences: boolean;
+	createOwnerDefinitions: boolean;
+	// Look for target entries missing from the file once a full import finishes
+	pruneAfterImport: boolean;
+	// Entries waiting for confirmation before they are deleted
+	pruneCandidates?: PruneCandidate[];
+	concurrency: number;
+	// Latest API cost budget reported by the store while a run is active
+	throttle?: ThrottleStatus;
 	results: Map<number, ImportResult>;
 	entryCompletionStatus: Map<number, 'metaobject-created' | 'backreferences-pending' | 'backreferences-completed' | 'failed'>;
+	plan?: ImportPlan;
+	planPath?: string;
+	// Journal written by the last import started from this screen
+	journalPath?: string;
 	selectFile: (file: OutputFile) => void;
 	clear: () => void;
 	confirmImport: () => void;
+	resumeImport: () => void;
+	// Stop the running import at the next entry boundary; results so far are still saved
+	cancel: () => void;
 	importOne: (index: number) => void;
+	dryRun: () => void;
+	// Undo the newest journaled import of the selected file
+	rollback: () => void;
 	toggleSkipOnError: () => void;
+	cycleConflictPolicy: () => void;
+	toggleReplaceBackReferences: () => void;
+	toggleCreateOwnerDefinitions: () => void;
+	cycleConcurrency: () => void;
+	togglePruneAfterImport: () => void;
+	confirmPrune: () => void;
+	dismissPrune: () => void;
 };
 
+// Upserts in flight during a full import; cycled from the Import screen
+const CONCURRENCY_LEVELS = [1, 2, 4, 8];
+
+const CONFLICT_POLICIES: ConflictPolicy[] = ['always', 'create-only', 'update-only', 'skip-unchanged'];
+
 const ImportContext = createContext<ImportContextValue | undefined>(undefined);
 
 export function ImportProvider({ children }: { children: React.ReactNode }) {
@@ -39,11 +77,27 @@ export function ImportProvider({ children }: { children: React.ReactNode }) {
 	const [processed, setProcessed] = useState<Set<number>>(new Set());
 	const [failed, setFailed] = useState<Map<number, string>>(new Map());
 	const [skipOnError, setSkipOnError] = useState<boolean>(false);
+	const [conflictPolicy, setConflictPolicy] = useState<ConflictPolicy>('always');
+	const [conflictSkips, setConflictSkips] = useState<Map<number, ConflictSkipReason>>(new Map());
+	const [replaceBackReferences, setReplaceBackReferences] = useState<boolean>(false);
+	const [createOwnerDefinitions, setCreateOwnerDefinitions] = useState<boolean>(false);
+	const [concurrency, setConcurrency] = useState<number>(1);
 	const [results, setResults] = useState<Map<number, ImportResult>>(new Map());
 	const [entryCompletionStatus, setEntryCompletionStatus] = useState<Map<number, 'metaobject-created' | 'backreferences-pending' | 'backreferences-completed' | 'failed'>>(new Map());
+	const [plan, setPlan] = useState<ImportPlan | undefined>(undefined);
+	const [planPath, setPlanPath] = useState<string | undefined>(undefined);
+	const [throttle, setThrottle] = useState<ThrottleStatus | undefined>(undefined);
+	const [journalPath, setJournalPath] = useState<string | undefined>(undefined);
+	const [pruneAfterImport, setPruneAfterImport] = useState<boolean>(false);
+	const [pruneCandidates, setPruneCandidates] = useState<PruneCandidate[] | undefined>(undefined);
+	// Results file and journal of the last full import, which the prune phase adds to
+	const lastRunRef = useRef<{ resultsPath?: string; journal?: ImportJournal }>({});
+	const abortRef = useRef<AbortController | undefined>(undefined);
 
 	const selectFile = (file: OutputFile) => {
 		setSelected(file);
+		setPlan(undefined);
+		setPlanPath(undefined);
 		try {
 			const text = fs.readFileSync(file.path, 'utf8');
 			setContentText(text);
@@ -54,6 +108,7 @@ export function ImportProvider({ children }: { children: React.ReactNode }) {
 				setProcessed(new Set());
 				setFailed(new Map());
 				setResults(new Map());
+				setConflictSkips(new Map());
 				setEntryCompletionStatus(new Map());
 			} catch {
 				setParsedFile(undefined);
@@ -61,6 +116,7 @@ export function ImportProvider({ children }: { children: React.ReactNode }) {
 				setProcessed(new Set());
 				setFailed(new Map());
 				setResults(new Map());
+				setConflictSkips(new Map());
 				setEntryCompletionStatus(new Map());
 			}
 		} catch (err) {
@@ -70,6 +126,7 @@ export function ImportProvider({ children }: { children: React.ReactNode }) {
 			setProcessed(new Set());
 			setFailed(new Map());
 			setResults(new Map());
+			setConflictSkips(new Map());
 			setEntryCompletionStatus(new Map());
 		}
 	};
@@ -84,22 +141,72 @@ export function ImportProvider({ children }: { children: React.ReactNode }) {
 		setProcessed(new Set());
 		setFailed(new Map());
 		setResults(new Map());
+		setConflictSkips(new Map());
 		setEntryCompletionStatus(new Map());
+		setPlan(undefined);
+		setPlanPath(undefined);
+		setJournalPath(undefined);
+		setPruneCandidates(undefined);
 	};
 
-	const confirmImport = useCallback(() => {
+	// A journal that can't be written must not block the import itself
+	const openJournal = useCallback((): ImportJournal | undefined => {
+		try {
+			const journal = createImportJournal(process.cwd(), { environment: parsedFile?.environment ?? selected?.environment ?? 'unknown', source: selected?.name });
+			setJournalPath(journal.path);
+			return journal;
+		} catch {
+			return undefined;
+		}
+	}, [parsedFile, selected]);
+
+	const runFullImport = useCallback((resume?: ImportResumeState) => {
 		if (!parsedFile || isRunning) return;
 		setIsRunning(true);
 		const startedAt = new Date();
-		setProgress({ index: 0, total: parsedFile.count, message: 'Starting…' });
-		const client = createShopifyClientFromEnv();
+		// Tracked locally as well: the state captured by this callback is stale by the time the run finishes
+		let completionStatus = new Map<number, 'metaobject-created' | 'backreferences-pending' | 'backreferences-completed' | 'failed'>();
+		const runResults = new Map<number, ImportResult>();
+		const runSkips = new Map<number, ConflictSkipReason>();
+		setProgress({ index: 0, total: parsedFile.count, message: resume ? 'Resuming…' : 'Starting…' });
+		setFailed(new Map());
+		setResults(new Map());
+		setConflictSkips(new Map());
+		setPruneCandidates(undefined);
+		const journal = openJournal();
+		lastRunRef.current = { journal };
+		let persisted = false;
+		const persist = () => {
+			// A failing prune lookup lands in the catch below after the summary was already written
+			if (persisted) return;
+			persisted = true;
+			try {
+				const env = parsedFile.environment ?? selected?.environment ?? 'unknown';
+				lastRunRef.current.resultsPath = writeImportResults(process.cwd(), buildImportResults({
+					environment: env,
+					startedAt,
+					finishedAt: new Date(),
+					entries: parsedFile.entries,
+					completionStatus,
+					results: runResults,
+					conflictPolicy,
+					conflictSkips: runSkips
+				}));
+			} catch {
+				// ignore persistence errors
+			}
+		};
+		const controller = new AbortController();
+		abortRef.current = controller;
+		const client = createShopifyClientFromEnv({ onThrottleStatus: setThrottle });
 		void runImport(client, parsedFile, {
 			onProgress: (p) => {
 				setProgress(p);
 				
 				// Update entry completion status if provided
 				if (p.entryCompletionStatus) {
-					setEntryCompletionStatus(new Map(p.entryCompletionStatus));
+					completionStatus = new Map(p.entryCompletionStatus);
+					setEntryCompletionStatus(completionStatus);
 				}
 				
 				// Mark entries as processed only when they are fully completed (including backreferences)
@@ -113,93 +220,134 @@ export function ImportProvider({ children }: { children: React.ReactNode }) {
 					setProcessed(newProcessed);
 				}
 				
+				if (p.conflictSkip && Number.isFinite(p.index)) {
+					runSkips.set(p.index, p.conflictSkip);
+					setConflictSkips(new Map(runSkips));
+				}
+
 				// Handle errors and failures
 				if (p.error && Number.isFinite(p.index)) {
+					runResults.set(p.index, { status: 'failed', error: p.error });
 					setFailed(prev => {
 						const m = new Map(prev);
 						m.set(p.index, p.error!);
 						return m;
 					});
-					setResults(prev => {
-						const m = new Map(prev);
-						m.set(p.index, { status: 'failed', error: p.error });
-						return m;
-					});
+					setResults(new Map(runResults));
 				} else if (Number.isFinite(p.index) && p.message?.startsWith('Skipped')) {
-					setResults(prev => { const m = new Map(prev); m.set(p.index, { status: 'skipped', error: p.error }); return m; });
+					runResults.set(p.index, { status: 'skipped', error: p.error });
+					setResults(new Map(runResults));
 				}
 			},
-			skipOnError
-		}).then(() => {
-			// Mark all completed entries as processed on completion
-			if (parsedFile) {
-				const allCompleted = new Set<number>();
-				for (let i = 0; i < parsedFile.count; i += 1) {
-					const status = entryCompletionStatus.get(i);
-					if (status === 'backreferences-completed') {
-						allCompleted.add(i);
-					}
-				}
-				setProcessed(allCompleted);
+			skipOnError,
+			conflictPolicy,
+			backReferenceMode: replaceBackReferences ? 'replace' : 'merge',
+			createOwnerDefinitions,
+			concurrency,
+			resume,
+			signal: controller.signal,
+			journal
+		}).then(async () => {
+			persist();
+			if (!pruneAfterImport) {
+				setIsRunning(false);
+				setProgress(undefined);
+				return;
 			}
+			const candidates = await findPruneCandidates(client, parsedFile, {
+				onProgress: (p) => setProgress({ index: p.processed, total: p.total, message: p.message, phase: 'prune' })
+			});
 			setIsRunning(false);
-			setProgress(undefined);
-			// Persist summary
+			setPruneCandidates(candidates.length > 0 ? candidates : undefined);
+			setProgress({ index: 0, total: candidates.length, message: candidates.length > 0 ? `${candidates.length} target entries are not in the file — y deletes them, n keeps them` : 'Nothing to prune', phase: 'prune' });
+		}).catch((e) => {
+			setIsRunning(false);
+			setProgress(() => ({ index: 0, total: parsedFile.count, message: e instanceof CancelledError ? 'Import cancelled — results saved, Cmd/Ctrl+R resumes' : String(e) }));
+			// A partial results file is what a later resume starts from
+			persist();
+		});
+	}, [parsedFile, isRunning, skipOnError, conflictPolicy, replaceBackReferences, createOwnerDefinitions, concurrency, pruneAfterImport, selected, openJournal]);
+
+	const confirmPrune = useCallback(() => {
+		if (!pruneCandidates || isRunning) return;
+		const candidates = pruneCandidates;
+		setPruneCandidates(undefined);
+		setIsRunning(true);
+		const controller = new AbortController();
+		abortRef.current = controller;
+		const { resultsPath, journal } = lastRunRef.current;
+		const client = createShopifyClientFromEnv({ onThrottleStatus: setThrottle });
+		void pruneEntries(client, candidates, {
+			journal,
+			signal: controller.signal,
+			onProgress: (p) => setProgress({ index: p.processed, total: p.total, message: p.message, error: p.error, phase: 'prune' })
+		}).then((pruned) => {
 			try {
-				const finishedAt = new Date();
-				const env = parsedFile?.environment ?? selected?.environment ?? 'unknown';
-				const entries = parsedFile?.entries ?? [];
-				const summary = {
-					environment: env,
-					startedAt: startedAt.toISOString(),
-					finishedAt: finishedAt.toISOString(),
-					count: entries.length,
-					results: entries.map((e, idx) => {
-						const r = results.get(idx);
-						const status = entryCompletionStatus.get(idx);
-						return { 
-							index: idx, 
-							type: e.type, 
-							handle: e.handle, 
-							status: r?.status ?? (status === 'backreferences-completed' ? 'success' : 'pending'), 
-							completionStatus: status,
-							error: r?.error 
-						};
-					})
-				};
-				const dir = path.join(process.cwd(), 'outputs');
-				fs.mkdirSync(dir, { recursive: true });
-				const fileName = `${env}-import-results-${finishedAt.toISOString().replace(/[:.]/g, '-')}.json`;
-				fs.writeFileSync(path.join(dir, fileName), JSON.stringify(summary, null, 2), 'utf8');
+				if (resultsPath) recordPrunedEntries(resultsPath, pruned);
 			} catch {
 				// ignore persistence errors
 			}
+			const failedCount = pruned.filter(r => r.status === 'failed').length;
+			setIsRunning(false);
+			setProgress({
+				index: pruned.length,
+				total: candidates.length,
+				message: `Pruned ${pruned.length - failedCount} of ${candidates.length} entries${controller.signal.aborted ? ' (cancelled)' : ''}`,
+				error: pruned.find(r => r.error)?.error,
+				phase: 'prune'
+			});
 		}).catch((e) => {
 			setIsRunning(false);
-			setProgress(() => ({ index: 0, total: parsedFile?.count ?? 0, message: String(e) }));
+			setProgress(() => ({ index: 0, total: candidates.length, message: String(e), phase: 'prune' }));
 		});
-	}, [parsedFile, isRunning, skipOnError, results, selected, entryCompletionStatus]);
+	}, [pruneCandidates, isRunning]);
+
+	const dismissPrune = useCallback(() => {
+		setPruneCandidates(undefined);
+		setProgress(undefined);
+	}, []);
+
+	const confirmImport = useCallback(() => runFullImport(), [runFullImport]);
+
+	// Re-run a full import from the newest results file for this export: successes are skipped, failed and pending entries retried
+	const resumeImport = useCallback(() => {
+		if (!parsedFile || isRunning) return;
+		const latest = findLatestImportResults(process.cwd(), parsedFile.entries);
+		if (!latest) {
+			setProgress({ index: 0, total: parsedFile.count, message: 'No import results found for this file', error: 'Nothing to resume' });
+			return;
+		}
+		runFullImport(resumeStateFromResults(parsedFile.entries, latest.summary));
+	}, [parsedFile, isRunning, runFullImport]);
 
 	const importOne = useCallback((index: number) => {
 		if (!parsedFile || isRunning) return;
 		setIsRunning(true);
 		setProgress({ index, total: parsedFile.count, current: parsedFile.entries[index], message: 'Starting…' });
-		const client = createShopifyClientFromEnv();
+		const controller = new AbortController();
+		abortRef.current = controller;
+		let entryStatus: 'metaobject-created' | 'backreferences-pending' | 'backreferences-completed' | 'failed' | undefined;
+		const client = createShopifyClientFromEnv({ onThrottleStatus: setThrottle });
 		void runImportOne(client, parsedFile, index, {
 			onProgress: (p) => {
 				setProgress(p);
 				
 				// Update entry completion status if provided
-				if (p.entryCompletionStatus) {
+				const statusUpdate = p.entryCompletionStatus;
+				if (statusUpdate) {
+					entryStatus = statusUpdate.get(index) ?? entryStatus;
 					setEntryCompletionStatus(prev => {
 						const m = new Map(prev);
-						for (const [idx, status] of p.entryCompletionStatus) {
+						for (const [idx, status] of statusUpdate) {
 							m.set(idx, status);
 						}
 						return m;
 					});
 				}
 				
+				const skip = p.conflictSkip;
+				if (skip) setConflictSkips(prev => { const m = new Map(prev); m.set(index, skip); return m; });
+
 				if (p.error) {
 					setFailed(prev => {
 						const m = new Map(prev);
@@ -209,13 +357,17 @@ export function ImportProvider({ children }: { children: React.ReactNode }) {
 					setResults(prev => { const m = new Map(prev); m.set(index, { status: 'failed', error: p.error }); return m; });
 				}
 			},
-			skipOnError
+			skipOnError,
+			conflictPolicy,
+			backReferenceMode: replaceBackReferences ? 'replace' : 'merge',
+			createOwnerDefinitions,
+			signal: controller.signal,
+			journal: openJournal()
 		}).then(() => {
 			setIsRunning(false);
 			setProgress(undefined);
 			// Only mark as processed if fully completed (including backreferences)
-			const status = entryCompletionStatus.get(index);
-			if (status === 'backreferences-completed') {
+			if (entryStatus === 'backreferences-completed') {
 				setProcessed(prev => {
 					const newSet = new Set(prev);
 					newSet.add(index);
@@ -238,11 +390,72 @@ export function ImportProvider({ children }: { children: React.ReactNode }) {
 				return m;
 			});
 		});
-	}, [parsedFile, isRunning, skipOnError, entryCompletionStatus]);
+	}, [parsedFile, isRunning, skipOnError, conflictPolicy, replaceBackReferences, createOwnerDefinitions, openJournal]);
+
+	const dryRun = useCallback(() => {
+		if (!parsedFile || isRunning) return;
+		setIsRunning(true);
+		setPlan(undefined);
+		setPlanPath(undefined);
+		setProgress({ index: 0, total: parsedFile.count, message: 'Planning…', phase: 'plan' });
+		const client = createShopifyClientFromEnv({ onThrottleStatus: setThrottle });
+		void planImport(client, parsedFile, { conflictPolicy, onProgress: (p) => setProgress(p) }).then((result) => {
+			setPlan(result);
+			try {
+				setPlanPath(writeImportPlan(process.cwd(), result));
+			} catch {
+				// ignore persistence errors
+			}
+			setIsRunning(false);
+			setProgress(undefined);
+		}).catch((e) => {
+			setIsRunning(false);
+			setProgress(() => ({ index: 0, total: parsedFile.count, message: String(e), phase: 'plan' }));
+		});
+	}, [parsedFile, isRunning, conflictPolicy]);
+
+	const rollback = useCallback(() => {
+		if (!parsedFile || !selected || isRunning) return;
+		const latest = findLatestImportJournal(process.cwd(), selected.name);
+		if (!latest) {
+			setProgress({ index: 0, total: parsedFile.count, message: 'No import journal found for this file', error: 'Nothing to roll back' });
+			return;
+		}
+		setIsRunning(true);
+		setProgress({ index: 0, total: 0, message: 'Rolling back…', phase: 'rollback' });
+		const client = createShopifyClientFromEnv({ onThrottleStatus: setThrottle });
+		const controller = new AbortController();
+		abortRef.current = controller;
+		void rollbackJournal(client, latest, {
+			signal: controller.signal,
+			onProgress: (p) => setProgress({ index: p.processed, total: p.total, message: p.message, error: p.error, phase: 'rollback' })
+		}).then((result) => {
+			setIsRunning(false);
+			setProcessed(new Set());
+			setResults(new Map());
+			setEntryCompletionStatus(new Map());
+			setProgress({
+				index: 0,
+				total: parsedFile.count,
+				message: `Rolled back: ${result.deleted} deleted, ${result.restored} restored, ${result.failed} failed`,
+				error: result.errors[0]
+			});
+		}).catch((e) => {
+			setIsRunning(false);
+			setProgress(() => ({ index: 0, total: parsedFile.count, message: e instanceof CancelledError ? 'Rollback cancelled — run it again to finish' : String(e) }));
+		});
+	}, [parsedFile, selected, isRunning]);
+
+	const cancel = useCallback(() => abortRef.current?.abort(), []);
 
 	const toggleSkipOnError = useCallback(() => setSkipOnError(v => !v), []);
+	const cycleConflictPolicy = useCallback(() => setConflictPolicy(v => CONFLICT_POLICIES[(CONFLICT_POLICIES.indexOf(v) + 1) % CONFLICT_POLICIES.length]), []);
+	const toggleReplaceBackReferences = useCallback(() => setReplaceBackReferences(v => !v), []);
+	const toggleCreateOwnerDefinitions = useCallback(() => setCreateOwnerDefinitions(v => !v), []);
+	const togglePruneAfterImport = useCallback(() => setPruneAfterImport(v => !v), []);
+	const cycleConcurrency = useCallback(() => setConcurrency(v => CONCURRENCY_LEVELS[(CONCURRENCY_LEVELS.indexOf(v) + 1) % CONCURRENCY_LEVELS.length]), []);
 
-	const value = useMemo<ImportContextValue>(() => ({ selected, contentText, parsedFile, stats, isRunning, progress, processed, failed, skipOnError, results, entryCompletionStatus, selectFile, clear, confirmImport, importOne, toggleSkipOnError }), [selected, contentText, parsedFile, stats, isRunning, progress, processed, failed, skipOnError, results, entryCompletionStatus, confirmImport, importOne, toggleSkipOnError]);
+	const value = useMemo<ImportContextValue>(() => ({ selected, contentText, parsedFile, stats, isRunning, progress, processed, failed, skipOnError, conflictPolicy, conflictSkips, replaceBackReferences, createOwnerDefinitions, pruneAfterImport, pruneCandidates, concurrency, throttle, results, entryCompletionStatus, plan, planPath, journalPath, selectFile, clear, confirmImport, resumeImport, cancel, importOne, dryRun, rollback, toggleSkipOnError, cycleConflictPolicy, toggleReplaceBackReferences, toggleCreateOwnerDefinitions, cycleConcurrency, togglePruneAfterImport, confirmPrune, dismissPrune }), [selected, contentText, parsedFile, stats, isRunning, progress, processed, failed, skipOnError, conflictPolicy, conflictSkips, replaceBackReferences, createOwnerDefinitions, pruneAfterImport, pruneCandidates, concurrency, throttle, results, entryCompletionStatus, plan, planPath, journalPath, confirmImport, resumeImport, cancel, importOne, dryRun, rollback, toggleSkipOnError, cycleConflictPolicy, toggleReplaceBackReferences, toggleCreateOwnerDefinitions, cycleConcurrency, togglePruneAfterImport, confirmPrune, dismissPrune]);
 
 	return (
 		<ImportContext.Provider value={value}>
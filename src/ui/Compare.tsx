@@ -0,0 +1,231 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import fs from 'node:fs';
+import { Box, Text, useInput, useStdout } from 'ink';
+import { FocusTextInput } from '@ui/components/FocusTextInput';
+import { useFocusRegion } from '@context/FocusContext';
+import { useNavigation } from '@context/NavigationContext';
+import { useEnvironment } from '@context/EnvironmentContext';
+import { useCompare } from '@context/CompareContext';
+import { createShopifyClientFromEnvFile } from '@utils/shopify/env';
+import { listOutputFiles } from '@utils/outputs';
+import { parseExportFile } from '@utils/schema';
+import type { DiffSide } from '@utils/diff';
+import { WizardHeader } from '@ui/components/WizardHeader';
+import { ButtonRow } from '@ui/components/ButtonRow';
+import { Panel } from '@ui/components/Panel';
+import { Table, type Column } from '@ui/components/Table';
+
+// The right-hand side can be another store or an export file
+type RightOption = { kind: 'env'; name: string; path: string } | { kind: 'file'; name: string; path: string };
+
+const STATUS_ICONS = { added: '+', removed: '-', changed: '~' } as const;
+
+function truncate(text: string, width: number): string {
+	return text.length > width ? `${text.slice(0, width - 1)}…` : text;
+}
+
+export function Compare() {
+	useFocusRegion('page:compare', true);
+	const { availableEnvs, selectedEnv } = useEnvironment();
+	const { navigate } = useNavigation();
+	const { report, reportPath, isRunning, progress, error, compare, saveReport, cancel, clear } = useCompare();
+
+	const [step, setStep] = useState<number>(report || isRunning || error ? 2 : 1); // 1=Form, 2=Results
+	useEffect(() => { if (isRunning || report) setStep(2); }, [isRunning, report]);
+
+	const rightOptions = useMemo<RightOption[]>(() => {
+		const files = listOutputFiles(process.cwd()).filter(f => f.typesPreview !== undefined);
+		return availableEnvs.map((e): RightOption => ({ kind: 'env', name: e.name, path: e.path }))
+			.concat(files.map((f): RightOption => ({ kind: 'file', name: f.name, path: f.path })));
+	}, [availableEnvs]);
+
+	const [leftIndex, setLeftIndex] = useState<number>(() => Math.max(0, availableEnvs.findIndex(e => e.name === selectedEnv?.name)));
+	const [rightIndex, setRightIndex] = useState<number>(() => Math.max(0, availableEnvs.findIndex(e => e.name !== selectedEnv?.name)));
+	const [types, setTypes] = useState<string[]>([]);
+	const [newType, setNewType] = useState<string>('');
+	const [focusIndex, setFocusIndex] = useState<number>(0); // 0: left, 1: right, 2: input, 3: run
+	const [formError, setFormError] = useState<string | undefined>(undefined);
+
+	const left = availableEnvs[leftIndex];
+	const right = rightOptions[rightIndex];
+	const canRun = Boolean(left && right) && types.length > 0 && !(right?.kind === 'env' && right.name === left?.name);
+
+	const { stdout } = useStdout();
+	const columns = stdout?.columns ?? 120;
+	const widthThird = Math.max(24, Math.floor(columns / 3));
+	const listHeight = Math.max(5, (stdout?.rows ?? 24) - 12);
+	const [selectedRow, setSelectedRow] = useState(0);
+	const [scroll, setScroll] = useState(0);
+	const diffs = useMemo(() => report?.entries ?? [], [report]);
+	useEffect(() => { setSelectedRow(0); setScroll(0); }, [report]);
+	useEffect(() => {
+		if (selectedRow < scroll) setScroll(selectedRow);
+		else if (selectedRow >= scroll + listHeight) setScroll(selectedRow - listHeight + 1);
+	}, [selectedRow, scroll, listHeight]);
+
+	function run() {
+		if (!left || !right || !canRun) return;
+		setFormError(undefined);
+		try {
+			const leftSide: DiffSide = { name: left.name, client: createShopifyClientFromEnvFile(left.path) };
+			const rightSide: DiffSide = right.kind === 'env'
+				? { name: right.name, client: createShopifyClientFromEnvFile(right.path) }
+				: { name: right.name, file: parseExportFile(fs.readFileSync(right.path, 'utf8')).file };
+			compare(leftSide, rightSide, types);
+		} catch (e) {
+			setFormError(String(e));
+		}
+	}
+
+	useInput((input, key) => {
+		if (step === 1) {
+			if (key.escape) { navigate('home'); return; }
+			if (key.tab && !key.shift) { setFocusIndex(i => Math.min(3, i + 1)); return; }
+			if (key.tab && key.shift) { setFocusIndex(i => Math.max(0, i - 1)); return; }
+			if (focusIndex === 0 && availableEnvs.length > 0) {
+				if (key.leftArrow) { setLeftIndex(i => (i - 1 + availableEnvs.length) % availableEnvs.length); return; }
+				if (key.rightArrow) { setLeftIndex(i => (i + 1) % availableEnvs.length); return; }
+			}
+			if (focusIndex === 1 && rightOptions.length > 0) {
+				if (key.leftArrow) { setRightIndex(i => (i - 1 + rightOptions.length) % rightOptions.length); return; }
+				if (key.rightArrow) { setRightIndex(i => (i + 1) % rightOptions.length); return; }
+			}
+			if (focusIndex === 2) {
+				if (key.return) {
+					const t = newType.trim();
+					if (t) setTypes(prev => (prev.includes(t) ? prev : [...prev, t]));
+					setNewType('');
+					return;
+				}
+				if (!newType && (key.backspace || key.delete)) { setTypes(prev => prev.slice(0, -1)); return; }
+			}
+			if (focusIndex === 3 && key.return) { run(); return; }
+			return;
+		}
+
+		if (isRunning) {
+			if ((key.meta || key.ctrl) && input?.toLowerCase() === 'x') cancel();
+			return;
+		}
+		if (key.escape) { clear(); setStep(1); return; }
+		if (input === 's' && report) { saveReport(); return; }
+		if (key.downArrow) setSelectedRow(i => Math.min(diffs.length - 1, i + 1));
+		if (key.upArrow) setSelectedRow(i => Math.max(0, i - 1));
+		if (key.pageDown) setSelectedRow(i => Math.min(diffs.length - 1, i + listHeight));
+		if (key.pageUp) setSelectedRow(i => Math.max(0, i - listHeight));
+	});
+
+	if (step === 1) {
+		return (
+			<Box flexDirection="column">
+				<WizardHeader title="Compare" step={1} total={2} />
+				<Text color={focusIndex === 0 ? 'yellow' : 'white'}>Left: ‹ {left?.name ?? 'none'} ›</Text>
+				<Text color={focusIndex === 1 ? 'yellow' : 'white'}>Right: ‹ {right ? `${right.name}${right.kind === 'file' ? ' (export file)' : ''}` : 'none'} ›</Text>
+				<Box flexDirection="column" marginTop={1}>
+					<Text>Metaobject types</Text>
+					<Box>
+						<Text color={focusIndex === 2 ? 'yellow' : 'gray'}>Add type:</Text>
+						<Box marginLeft={1}>
+							<FocusTextInput focus={focusIndex === 2} value={newType} onChange={setNewType} placeholder="Supports $app: prefix" />
+						</Box>
+					</Box>
+					{types.length > 0 ? <Text>{types.join(', ')}</Text> : <Text dimColor>No types added yet</Text>}
+				</Box>
+				<Box marginTop={1}>
+					<Text dimColor>←/→ change side • Enter adds a type, ⌫ on an empty input removes the last • Tab/Shift+Tab to move • Esc to go back</Text>
+				</Box>
+				<Box marginTop={1}>
+					<ButtonRow label={canRun ? 'Compare' : 'Compare (pick two different sides and a type)'} focused={focusIndex === 3} />
+				</Box>
+				{formError ? <Text color="red">{formError}</Text> : null}
+			</Box>
+		);
+	}
+
+	const tableColumns: Column[] = [
+		{ label: '', width: 2 },
+		{ label: 'Type', width: 24 },
+		{ label: 'Handle', width: 32 }
+	];
+	const rows = diffs.slice(scroll, scroll + listHeight).map(d => [STATUS_ICONS[d.status], d.type, d.handle]);
+	const selected = diffs[selectedRow];
+
+	return (
+		<Box flexDirection="row" justifyContent="space-between">
+			<Box width={widthThird} flexDirection="column" marginRight={1}>
+				<WizardHeader title="Compare" step={2} total={2} />
+				<Text>Left: {report?.left ?? left?.name ?? 'unknown'}</Text>
+				<Text>Right: {report?.right ?? right?.name ?? 'unknown'}</Text>
+				{report ? (
+					<Box marginTop={1} flexDirection="column">
+						<Text>Types: {report.types.join(', ')}</Text>
+						<Text color="green">+ Only on the right: {report.summary.added}</Text>
+						<Text color="red">- Only on the left: {report.summary.removed}</Text>
+						<Text color="yellow">~ Changed: {report.summary.changed}</Text>
+						<Text dimColor>= Unchanged: {report.summary.unchanged}</Text>
+					</Box>
+				) : null}
+				{isRunning ? (
+					<Box marginTop={1} flexDirection="column">
+						<Text color="cyan">Reading {progress?.name ?? '…'}</Text>
+						{progress ? <Text dimColor>{progress.export?.currentType ? `${progress.export.currentType} • ` : ''}{progress.message}</Text> : null}
+					</Box>
+				) : null}
+				{error ? <Text color="red">{error}</Text> : null}
+				{reportPath ? <Text color="cyan">Saved: {reportPath}</Text> : null}
+				<Box marginTop={1} flexDirection="column">
+					<Text>Hotkeys</Text>
+					{isRunning ? (
+						<Text dimColor>Cmd/Ctrl+X: cancel</Text>
+					) : (
+						<>
+							<Text dimColor>↑/↓: navigate entries</Text>
+							<Text dimColor>s: save JSON report</Text>
+							<Text dimColor>Esc: new comparison</Text>
+						</>
+					)}
+				</Box>
+			</Box>
+			<Box width={widthThird} flexDirection="column" marginX={1}>
+				<Panel title="Differences">
+					{diffs.length === 0 ? (
+						<Text dimColor>{report ? 'No differences' : 'Waiting…'}</Text>
+					) : (
+						<>
+							<Table columns={tableColumns} rows={rows} activeIndex={selectedRow - scroll} />
+							<Text dimColor>Rows {Math.min(scroll + 1, diffs.length)}-{Math.min(scroll + listHeight, diffs.length)} of {diffs.length}</Text>
+						</>
+					)}
+				</Panel>
+			</Box>
+			<Box width={widthThird} flexDirection="column" marginLeft={1}>
+				<Panel title="Fields">
+					{selected ? (
+						<>
+							<Text>{selected.type}/{selected.handle}</Text>
+							<Text dimColor>{selected.status === 'added' ? 'Only on the right' : selected.status === 'removed' ? 'Only on the left' : `${selected.fields.length} fields differ${selected.backReferences ? ', back references differ' : ''}`}</Text>
+							{selected.fields.slice(0, listHeight).map(f => (
+								<Box key={f.key} flexDirection="column" marginTop={1}>
+									<Text>{f.key}</Text>
+									<Text color="red">- {truncate(f.left ?? '∅', widthThird - 6)}</Text>
+									<Text color="green">+ {truncate(f.right ?? '∅', widthThird - 6)}</Text>
+								</Box>
+							))}
+							{selected.fields.length > listHeight ? <Text dimColor>…and {selected.fields.length - listHeight} more fields</Text> : null}
+							{selected.backReferences ? (
+								<Box flexDirection="column" marginTop={1}>
+									<Text>Back references</Text>
+									{selected.backReferences.removed.slice(0, 10).map(r => <Text key={`-${r}`} color="red">- {truncate(r, widthThird - 6)}</Text>)}
+									{selected.backReferences.added.slice(0, 10).map(r => <Text key={`+${r}`} color="green">+ {truncate(r, widthThird - 6)}</Text>)}
+									{selected.backReferences.added.length + selected.backReferences.removed.length > 20 ? <Text dimColor>…see the saved report for the rest</Text> : null}
+								</Box>
+							) : null}
+						</>
+					) : (
+						<Text dimColor>No entry selected</Text>
+					)}
+				</Panel>
+			</Box>
+		</Box>
+	);
+}
@@ -1,14 +1,22 @@
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Box, Text, useInput } from 'ink';
 import { FocusTextInput } from '@ui/components/FocusTextInput';
 import { useFocusRegion } from '@context/FocusContext';
 import { useNavigation } from '@context/NavigationContext';
 import { useEnvironment } from '@context/EnvironmentContext';
 import { createShopifyClientFromEnv } from '@utils/shopify/env';
-import { runExport, type ExportProgress } from '@utils/exporter';
+import { findIncrementalBase, runExport, runExportAll, type ExportProgress } from '@utils/exporter';
+import { listMetaobjectDefinitions, type MetaobjectDefinitionSummary } from '@utils/shopify/definitions';
 import { WizardHeader } from '@ui/components/WizardHeader';
 import { CheckboxRow } from '@ui/components/CheckboxRow';
 import { ButtonRow } from '@ui/components/ButtonRow';
+import { ApiBudget } from '@ui/components/ApiBudget';
+import { CancelledError, type ThrottleStatus } from '@utils/shopify/client';
+
+// Rows of the discovered type list shown at once
+const PICKER_ROWS = 8;
+// Rows of per-type progress shown at once; all-types exports can cover dozens
+const PROGRESS_ROWS = 12;
 
 export function Export() {
 	useFocusRegion('page:export', true);
@@ -19,26 +27,87 @@ export function Export() {
 	const [newType, setNewType] = useState<string>('');
 	const [retainIds, setRetainIds] = useState<boolean>(true);
 	const [includeBackRefs, setIncludeBackRefs] = useState<boolean>(false);
+	const [bulk, setBulk] = useState<boolean>(false);
+	// Entry filters: comma-separated handles, a Shopify search query and an updatedAt lower bound
+	const [handlesFilter, setHandlesFilter] = useState<string>('');
+	const [queryFilter, setQueryFilter] = useState<string>('');
+	const [updatedSince, setUpdatedSince] = useState<string>('');
+	const [incremental, setIncremental] = useState<boolean>(false);
+	const [includeDependencies, setIncludeDependencies] = useState<boolean>(false);
+	const [pulledIn, setPulledIn] = useState<Record<string, number> | undefined>(undefined);
 	const [running, setRunning] = useState<boolean>(false);
-	const [resultPath, setResultPath] = useState<string | undefined>(undefined);
+	const [resultPaths, setResultPaths] = useState<string[]>([]);
 	const [error, setError] = useState<string | undefined>(undefined);
-	const [focusIndex, setFocusIndex] = useState<number>(0); // 0: input, 1: list, 2: retainIds, 3: includeBackRefs, 4: run
+	const [allTypes, setAllTypes] = useState<boolean>(false);
+	const [prefix, setPrefix] = useState<string>('');
+	const [perType, setPerType] = useState<boolean>(false);
+	const [focusIndex, setFocusIndex] = useState<number>(0); // 0: input, 1: discovered, 2: list, 3: allTypes, 4: prefix, 5: perType, 6: retainIds, 7: includeBackRefs, 8: bulk, 9: handles, 10: query, 11: updatedSince, 12: incremental, 13: includeDependencies, 14: run
 	const [listIndex, setListIndex] = useState<number>(0);
+	const [definitions, setDefinitions] = useState<MetaobjectDefinitionSummary[] | undefined>(undefined);
+	const [definitionsError, setDefinitionsError] = useState<string | undefined>(undefined);
+	const [pickerIndex, setPickerIndex] = useState<number>(0);
 	const [progress, setProgress] = useState<ExportProgress | undefined>(undefined);
+	const [throttle, setThrottle] = useState<ThrottleStatus | undefined>(undefined);
+	const [cancelled, setCancelled] = useState<boolean>(false);
+	const abortRef = useRef<AbortController | undefined>(undefined);
 	const [step, setStep] = useState<number>(1); // 1=Form, 2=Run
 
 	// Per-type live progress
 	const [typeProgress, setTypeProgress] = useState<Record<string, { count: number; backRefs: number; done: boolean }>>({});
-	const orderedTypes = useMemo(() => types.slice(), [types]);
+	const [typeCount, setTypeCount] = useState<number | undefined>(undefined);
+	// All-types runs only learn their types as they go, in export order
+	const orderedTypes = useMemo(() => (allTypes ? Object.keys(typeProgress) : types.slice()), [allTypes, typeProgress, types]);
+
+	// Discover the store's definitions so types can be picked instead of typed
+	useEffect(() => {
+		const controller = new AbortController();
+		setDefinitions(undefined);
+		setDefinitionsError(undefined);
+		void Promise.resolve()
+			.then(() => listMetaobjectDefinitions(createShopifyClientFromEnv(), controller.signal))
+			.then(setDefinitions)
+			.catch((e) => { if (!(e instanceof CancelledError)) setDefinitionsError(String(e)); });
+		return () => controller.abort();
+	}, [selectedEnv?.name]);
+
+	// The input doubles as the search box for the discovered list
+	const matches = useMemo(() => {
+		const q = newType.trim().toLowerCase();
+		return (definitions ?? []).filter(d => !q || d.type.toLowerCase().includes(q) || d.name.toLowerCase().includes(q));
+	}, [definitions, newType]);
+	useEffect(() => { setPickerIndex(i => Math.min(i, Math.max(0, matches.length - 1))); }, [matches]);
+	const pickerStart = Math.max(0, Math.min(pickerIndex - Math.floor(PICKER_ROWS / 2), matches.length - PICKER_ROWS));
+	const knownTypes = useMemo(() => new Set((definitions ?? []).map(d => d.type)), [definitions]);
+
+	const prefixMatches = useMemo(() => (definitions ?? []).filter(d => !prefix.trim() || d.type.startsWith(prefix.trim())).length, [definitions, prefix]);
 
 	const hasList = types.length > 0;
-	const maxFocus = hasList ? 4 : 3;
+	const hasMatches = matches.length > 0;
+	const maxFocus = 14;
 
-	const canRun = types.length > 0 && !running;
+	// All-types runs look up a base per file once the types are known
+	const incrementalBase = useMemo(() => (incremental && !allTypes && types.length > 0 ? findIncrementalBase(process.cwd(), selectedEnv?.name ?? 'unknown', types) : undefined), [incremental, allTypes, types, selectedEnv?.name]);
+	const updatedSinceValid = !updatedSince.trim() || !Number.isNaN(Date.parse(updatedSince.trim()));
+	const canRun = (allTypes || types.length > 0) && updatedSinceValid && !running;
 
-	function clampFocus(idx: number): number {
-		if (!hasList && idx === 1) return 2;
-		return Math.max(0, Math.min(idx, maxFocus));
+	// The type picker is unused in all-types mode, the prefix and per-type options only apply to it
+	function focusable(idx: number): boolean {
+		if (idx <= 2 && allTypes) return false;
+		if (idx === 1) return hasMatches;
+		if (idx === 2) return hasList;
+		if (idx === 4 || idx === 5) return allTypes;
+		return true;
+	}
+
+	function moveFocus(from: number, dir: number): number {
+		for (let next = from + dir; next >= 0 && next <= maxFocus; next += dir) {
+			if (focusable(next)) return next;
+		}
+		return from;
+	}
+
+	function toggleType(t: string) {
+		setTypes(prev => (prev.includes(t) ? prev.filter(x => x !== t) : [...prev, t]));
 	}
 
 	function addType(value: string) {
@@ -60,42 +129,82 @@ export function Export() {
 		setNewType(types[listIndex] ?? '');
 		setTypes(prev => prev.filter((_, i) => i !== listIndex));
 		setFocusIndex(0);
+		setPickerIndex(0);
 	}
 
 	useInput((input, key) => {
 		if (step === 1) {
 			if (!running && key.escape) { navigate('home'); return; }
 
-			if (key.tab && !key.shift) { setFocusIndex(i => clampFocus(i + 1)); return; }
-			if (key.tab && key.shift) { setFocusIndex(i => clampFocus(i - 1)); return; }
+			if (key.tab && !key.shift) { setFocusIndex(i => moveFocus(i, 1)); return; }
+			if (key.tab && key.shift) { setFocusIndex(i => moveFocus(i, -1)); return; }
 
 			if (focusIndex === 0) {
 				if (key.return) { addType(newType); return; }
+				if (key.downArrow && hasMatches) { setFocusIndex(1); return; }
 			}
 			if (focusIndex === 1) {
+				if (key.upArrow) {
+					if (pickerIndex === 0) setFocusIndex(0);
+					else setPickerIndex(i => i - 1);
+					return;
+				}
+				if (key.downArrow) { setPickerIndex(i => Math.min(matches.length - 1, i + 1)); return; }
+				if (key.pageUp) { setPickerIndex(i => Math.max(0, i - PICKER_ROWS)); return; }
+				if (key.pageDown) { setPickerIndex(i => Math.min(matches.length - 1, i + PICKER_ROWS)); return; }
+				if (key.return || input === ' ') {
+					const d = matches[pickerIndex];
+					if (d) toggleType(d.type);
+					return;
+				}
+			}
+			if (focusIndex === 2) {
 				if (key.upArrow) { setListIndex(i => Math.max(0, i - 1)); return; }
 				if (key.downArrow) { setListIndex(i => Math.min(types.length - 1, i + 1)); return; }
 				if (input?.toLowerCase() === 'e') { editSelectedType(); return; }
 				if (key.backspace || key.delete) { removeSelectedType(); return; }
 			}
-			if (focusIndex === 2) {
+			if (focusIndex === 3) {
+				if (key.return || input === ' ') { setAllTypes(v => !v); return; }
+			}
+			if (focusIndex === 5) {
+				if (key.return || input === ' ') { setPerType(v => !v); return; }
+			}
+			if (focusIndex === 6) {
 				if (key.return || input === ' ') { setRetainIds(v => !v); return; }
 			}
-			if (focusIndex === 3) {
+			if (focusIndex === 7) {
 				if (key.return || input === ' ') { setIncludeBackRefs(v => !v); return; }
 			}
-			if (focusIndex === 4) {
+			if (focusIndex === 8) {
+				if (key.return || input === ' ') { setBulk(v => !v); return; }
+			}
+			if (focusIndex === 12) {
+				if (key.return || input === ' ') { setIncremental(v => !v); return; }
+			}
+			if (focusIndex === 13) {
+				if (key.return || input === ' ') { setIncludeDependencies(v => !v); return; }
+			}
+			if (focusIndex === 14) {
 				if ((key.return || input?.toLowerCase() === 'r') && canRun) { void run(); return; }
 			}
 			if ((key.return || input?.toLowerCase() === 'r') && canRun && focusIndex === maxFocus) { void run(); return; }
 		} else {
 			// Step 2 (Run)
 			if (!running && key.escape) { setStep(1); return; }
+			// Cancel: stops at the next page boundary and writes a partial export
+			if (running && (key.meta || key.ctrl) && input?.toLowerCase() === 'x') { abortRef.current?.abort(); setCancelled(true); return; }
 		}
 	});
 
 	function handleProgress(p: ExportProgress) {
 		setProgress(p);
+		if (p.typeCount !== undefined) setTypeCount(p.typeCount);
+		// Per-type files each report their own; add them up
+		if (p.dependencies) {
+			const pulled = p.dependencies;
+			setPulledIn(prev => Object.fromEntries(Array.from(new Set(Object.keys(prev ?? {}).concat(Object.keys(pulled)))).map(t => [t, (prev?.[t] ?? 0) + (pulled[t] ?? 0)])));
+		}
 		if (p.currentType) {
 			setTypeProgress(prev => ({
 				...prev,
@@ -112,20 +221,32 @@ export function Export() {
 		setRunning(true);
 		setError(undefined);
 		setProgress(undefined);
-		setResultPath(undefined);
+		setResultPaths([]);
+		setPulledIn(undefined);
 		setTypeProgress({});
+		setTypeCount(allTypes ? undefined : types.length);
+		setThrottle(undefined);
+		setCancelled(false);
 		setStep(2);
+		const controller = new AbortController();
+		abortRef.current = controller;
 		try {
-			const client = createShopifyClientFromEnv();
-			const outPath = await runExport(client, {
+			const client = createShopifyClientFromEnv({ onThrottleStatus: setThrottle });
+			const opts = {
 				cwd: process.cwd(),
 				environmentFileName: selectedEnv?.name ?? 'unknown',
-				types,
 				retainIds,
 				includeBackReferences: includeBackRefs,
-				onProgress: handleProgress
-			});
-			setResultPath(outPath);
+				engine: bulk ? 'bulk' as const : 'pages' as const,
+				filters: { handles: handlesFilter.split(','), query: queryFilter, updatedSince },
+				incremental,
+				includeDependencies,
+				onProgress: handleProgress,
+				signal: controller.signal
+			};
+			setResultPaths(allTypes
+				? await runExportAll(client, { ...opts, prefix: prefix.trim() || undefined, perType })
+				: [await runExport(client, { ...opts, types })]);
 		} catch (e) {
 			setError(String(e));
 		} finally {
@@ -146,16 +267,40 @@ export function Export() {
 					<Box>
 						<Text color={focusIndex === 0 ? 'yellow' : 'gray'}>Add type:</Text>
 						<Box marginLeft={1}>
-							<FocusTextInput focus={focusIndex === 0} value={newType} onChange={setNewType} placeholder="Supports $app: prefix" />
+							<FocusTextInput focus={focusIndex === 0} value={newType} onChange={setNewType} placeholder="Search, or type one (supports $app: prefix)" />
 						</Box>
 					</Box>
+					<Box flexDirection="column" marginTop={1}>
+						{definitionsError ? (
+							<Text color="red">Could not list definitions: {definitionsError}</Text>
+						) : !definitions ? (
+							<Text dimColor>Loading metaobject definitions…</Text>
+						) : !hasMatches ? (
+							<Text dimColor>{definitions.length === 0 ? 'No metaobject definitions in this store' : 'No definitions match; Enter adds the type as typed'}</Text>
+						) : (
+							<>
+								{matches.slice(pickerStart, pickerStart + PICKER_ROWS).map((d, i) => {
+									const idx = pickerStart + i;
+									const active = focusIndex === 1 && pickerIndex === idx;
+									return (
+										<Text key={d.type} color={active ? 'yellow' : 'white'}>
+											{active ? '› ' : '  '}[{types.includes(d.type) ? 'x' : ' '}] {d.type} <Text dimColor>{d.name} • {d.entryCount} entries</Text>
+										</Text>
+									);
+								})}
+								<Text dimColor>{matches.length} of {definitions.length} definitions • ↑/↓ move • Space/Enter select</Text>
+							</>
+						)}
+					</Box>
 					{types.length > 0 ? (
 						<Box flexDirection="column" marginTop={1}>
+							<Text>Selected</Text>
 							{types.map((t, idx) => (
 								<Box key={`${t}-${idx}`}>
-									<Text color={focusIndex === 1 && listIndex === idx ? 'yellow' : 'white'}>
-										{focusIndex === 1 && listIndex === idx ? '› ' : '  '}{t}
+									<Text color={focusIndex === 2 && listIndex === idx ? 'yellow' : 'white'}>
+										{focusIndex === 2 && listIndex === idx ? '› ' : '  '}{t}
 									</Text>
+									{definitions && !knownTypes.has(t) ? <Text color="yellow"> (not found in this store)</Text> : null}
 								</Box>
 							))}
 							<Text dimColor>↑/↓ select • e edit • ⌫/Del remove</Text>
@@ -165,31 +310,89 @@ export function Export() {
 					)}
 				</Box>
 
+				<Box marginTop={1} flexDirection="column">
+					<CheckboxRow label="Export all types (ignores the selection above)" checked={allTypes} focused={focusIndex === 3} />
+					{allTypes ? (
+						<Box flexDirection="column" marginLeft={2}>
+							<Box>
+								<Text color={focusIndex === 4 ? 'yellow' : 'gray'}>Type prefix:</Text>
+								<Box marginLeft={1}>
+									<FocusTextInput focus={focusIndex === 4} value={prefix} onChange={setPrefix} placeholder="Optional, e.g. $app:" />
+								</Box>
+								{definitions ? <Text dimColor> ({prefixMatches} types)</Text> : null}
+							</Box>
+							<CheckboxRow label="One file per type" checked={perType} focused={focusIndex === 5} />
+						</Box>
+					) : null}
+				</Box>
+
 				<Box marginTop={1}>
-					<CheckboxRow label="Retain original IDs" checked={retainIds} focused={focusIndex === 2} />
+					<CheckboxRow label="Retain original IDs" checked={retainIds} focused={focusIndex === 6} />
 				</Box>
 
 				<Box marginTop={1}>
-					<CheckboxRow label="Include metaobject entry parent references" checked={includeBackRefs} focused={focusIndex === 3} />
+					<CheckboxRow label="Include metaobject entry parent references" checked={includeBackRefs} focused={focusIndex === 7} />
+				</Box>
+
+				<Box marginTop={1}>
+					<CheckboxRow label="Use Bulk Operations (for types with many thousands of entries)" checked={bulk} focused={focusIndex === 8} />
+				</Box>
+
+				<Box marginTop={1} flexDirection="column">
+					<Text>Only entries matching (all optional)</Text>
+					<Box>
+						<Text color={focusIndex === 9 ? 'yellow' : 'gray'}>Handles:</Text>
+						<Box marginLeft={1}>
+							<FocusTextInput focus={focusIndex === 9} value={handlesFilter} onChange={setHandlesFilter} placeholder="Comma-separated" />
+						</Box>
+					</Box>
+					<Box>
+						<Text color={focusIndex === 10 ? 'yellow' : 'gray'}>Search query:</Text>
+						<Box marginLeft={1}>
+							<FocusTextInput focus={focusIndex === 10} value={queryFilter} onChange={setQueryFilter} placeholder="e.g. display_name:Summer*" />
+						</Box>
+					</Box>
+					<Box>
+						<Text color={focusIndex === 11 ? 'yellow' : 'gray'}>Updated since:</Text>
+						<Box marginLeft={1}>
+							<FocusTextInput focus={focusIndex === 11} value={updatedSince} onChange={setUpdatedSince} placeholder="YYYY-MM-DD or ISO date-time" />
+						</Box>
+					</Box>
+					{!updatedSinceValid ? <Text color="red">Updated since is not a valid date</Text> : null}
+				</Box>
+
+				<Box marginTop={1} flexDirection="column">
+					<CheckboxRow label="Incremental: only entries updated since the last export of these types" checked={incremental} focused={focusIndex === 12} />
+					{incremental && !allTypes && types.length > 0 ? (
+						<Text dimColor>{incrementalBase ? `  Since ${incrementalBase.since} (${incrementalBase.name}); replaces Updated since` : '  No previous complete export of these types for this environment; everything is exported'}</Text>
+					) : null}
+				</Box>
+
+				<Box marginTop={1}>
+					<CheckboxRow label="Include referenced metaobject entries (recursively, any type)" checked={includeDependencies} focused={focusIndex === 13} />
 				</Box>
 
 				<Box marginTop={1}>
 					<Text dimColor>{canRun ? 'Enter to run • Tab/Shift+Tab to move • Esc to go back' : 'Add at least one type'}</Text>
 				</Box>
 				<Box marginTop={1}>
-					<ButtonRow label="Run export" focused={focusIndex === 4} />
+					<ButtonRow label="Run export" focused={focusIndex === 14} />
 				</Box>
 				{error ? (
 					<Box marginTop={1}><Text color="red">{error}</Text></Box>
 				) : null}
-				{resultPath ? (
-					<Box marginTop={1}><Text color="cyan">Wrote: {resultPath}</Text></Box>
+				{resultPaths.length > 0 ? (
+					<Box marginTop={1}><Text color="cyan">Wrote: {resultPaths.length === 1 ? resultPaths[0] : `${resultPaths.length} files to outputs/`}</Text></Box>
 				) : null}
 			</Box>
 		);
 	}
 
-	// Step 2: Run progress
+	// Step 2: Run progress, windowed around the type being fetched
+	const doneTypes = orderedTypes.filter(t => typeProgress[t]?.done).length;
+	const totalEntries = orderedTypes.reduce((n, t) => n + (typeProgress[t]?.count ?? 0), 0);
+	const currentIndex = progress?.currentType ? orderedTypes.indexOf(progress.currentType) : orderedTypes.length - 1;
+	const progressStart = Math.max(0, Math.min(currentIndex - Math.floor(PROGRESS_ROWS / 2), orderedTypes.length - PROGRESS_ROWS));
 	return (
 		<Box flexDirection="column">
 			<WizardHeader title="Export" step={2} total={2} />
@@ -197,12 +400,19 @@ export function Export() {
 				<Text>Environment: {selectedEnv?.name ?? 'unknown'}</Text>
 			</Box>
 			<Box marginTop={1} flexDirection="column">
-				<Text>Selected types:</Text>
-				{types.length > 0 ? types.map((t, idx) => <Text key={`${t}-${idx}`}>- {t}</Text>) : <Text dimColor>None</Text>}
+				<Text>Types: {allTypes ? `all${prefix.trim() ? ` starting with ${prefix.trim()}` : ''}${perType ? ', one file each' : ''}` : types.join(', ')}</Text>
+				{handlesFilter.trim() || queryFilter.trim() || updatedSince.trim() ? (
+					<Text dimColor>Filters: {[handlesFilter.trim() && `handles ${handlesFilter.trim()}`, queryFilter.trim() && `query ${queryFilter.trim()}`, updatedSince.trim() && `updated since ${updatedSince.trim()}`].filter(Boolean).join(' • ')}</Text>
+				) : null}
+				<Text dimColor>{doneTypes}/{typeCount ?? '?'} types done • {totalEntries} entries</Text>
+				{pulledIn ? (
+					<Text color="cyan">{Object.keys(pulledIn).length > 0 ? `Pulled in: ${Object.entries(pulledIn).map(([t, n]) => `${t} (${n})`).join(', ')}` : 'No referenced entries outside the export'}</Text>
+				) : null}
 			</Box>
 			<Box marginTop={1} flexDirection="column">
 				<Text>Progress by type:</Text>
-				{orderedTypes.map((t) => {
+				{progressStart > 0 ? <Text dimColor>…{progressStart} earlier</Text> : null}
+				{orderedTypes.slice(progressStart, progressStart + PROGRESS_ROWS).map((t) => {
 					const row = typeProgress[t] ?? { count: 0, backRefs: 0, done: false };
 					return (
 						<Text key={t} dimColor={!row.done && row.count === 0} color={row.done ? 'green' : undefined}>
@@ -210,18 +420,27 @@ export function Export() {
 						</Text>
 					);
 				})}
+				{orderedTypes.length > progressStart + PROGRESS_ROWS ? <Text dimColor>…{orderedTypes.length - progressStart - PROGRESS_ROWS} more</Text> : null}
 			</Box>
 			{progress ? (
 				<Box marginTop={1} flexDirection="column">
 					<Text dimColor>{`${progress.phase}: ${progress.currentType ? `${progress.currentType} • ` : ''}${progress.message}${progress.count !== undefined ? ` (${progress.count})` : ''}${progress.backRefCount !== undefined ? ` • backrefs ${progress.backRefCount}` : ''}`}</Text>
 					{progress.error ? <Text color="red">{progress.error}</Text> : null}
+					<ApiBudget status={throttle} />
 				</Box>
 			) : null}
 			{error ? (
 				<Box marginTop={1}><Text color="red">{error}</Text></Box>
 			) : null}
-			{resultPath ? (
-				<Box marginTop={1}><Text color="cyan">Wrote: {resultPath}</Text></Box>
+			{resultPaths.length > 0 ? (
+				<Box marginTop={1} flexDirection="column">
+					{resultPaths.length === 1
+						? <Text color="cyan">Wrote{cancelled ? ' partial export' : ''}: {resultPaths[0]}</Text>
+						: <Text color="cyan">Wrote {resultPaths.length} files to outputs/{cancelled ? ' before cancelling' : ''}</Text>}
+				</Box>
+			) : null}
+			{running ? (
+				<Box marginTop={1}><Text dimColor>{cancelled ? 'Cancelling at the next page…' : 'Cmd/Ctrl+X: cancel'}</Text></Box>
 			) : null}
 		</Box>
 	);
@@ -6,6 +6,7 @@ import type { OutputFile } from '@utils/outputs';
 import { useFocusRegion } from '@context/FocusContext';
 import { useNavigation } from '@context/NavigationContext';
 import { useImport } from '@context/ImportContext';
+import { useCompare } from '@context/CompareContext';
 import { createShopifyClientFromEnv } from '@utils/shopify/env';
 import { getShopInfo, type ShopInfo } from '@utils/shopify/shop';
 import { Panel } from '@ui/components/Panel';
@@ -25,6 +26,9 @@ export function Home() {
 	const [activeIndex, setActiveIndex] = useState<number>(0);
 	const { navigate } = useNavigation();
 	const { selectFile } = useImport();
+	const { compareFiles } = useCompare();
+	// Up to two rows marked with Space for an offline diff
+	const [marked, setMarked] = useState<string[]>([]);
 	const [shop, setShop] = useState<ShopInfo | undefined>(undefined);
 	const [shopError, setShopError] = useState<string | undefined>(undefined);
 
@@ -57,6 +61,18 @@ export function Home() {
 			selectFile(files[activeIndex]);
 			navigate('import');
 		}
+		if (input === ' ' && files[activeIndex]) {
+			const p = files[activeIndex].path;
+			setMarked(prev => prev.includes(p) ? prev.filter(m => m !== p) : prev.concat(p).slice(-2));
+		}
+		if (input === 'd' && marked.length === 2) {
+			const [left, right] = marked.map(m => files.find(f => f.path === m));
+			if (left && right) {
+				compareFiles(left, right);
+				setMarked([]);
+				navigate('compare');
+			}
+		}
 	});
 
 	const columns: Column[] = [
@@ -67,7 +83,7 @@ export function Home() {
 		{ label: 'Types', width: 24 }
 	];
 	const rows: string[][] = files.map(f => [
-		f.name,
+		`${marked.includes(f.path) ? '● ' : ''}${f.name}`,
 		f.type,
 		f.environment ?? 'unknown',
 		new Date(f.createdMs).toLocaleString(),
@@ -102,7 +118,7 @@ export function Home() {
 					) : (
 						<Box flexDirection="column">
 							<Table columns={columns} rows={rows} activeIndex={activeIndex} />
-							<Text dimColor>{'\u2190'} Press Enter to import</Text>
+							<Text dimColor>{'\u2190'} Press Enter to import • Space to mark two exports, then d to diff them{marked.length > 0 ? ` (${marked.length}/2 marked)` : ''}</Text>
 						</Box>
 					)}
 				</Panel>
@@ -7,11 +7,16 @@ import { useEnvironment } from '@context/EnvironmentContext';
 import { listOutputFiles, type OutputFile } from '@utils/outputs';
 import { WizardHeader } from '@ui/components/WizardHeader';
 import { Panel } from '@ui/components/Panel';
+import { ApiBudget } from '@ui/components/ApiBudget';
 import { Table, type Column } from '@ui/components/Table';
 
+function truncate(text: string, width: number): string {
+	return text.length > width ? `${text.slice(0, width - 1)}…` : text;
+}
+
 export function Import() {
 	useFocusRegion('page:import', true);
-	const { selected, contentText, parsedFile, stats, confirmImport, importOne, isRunning, progress, selectFile, failed, skipOnError, toggleSkipOnError, entryCompletionStatus } = useImport();
+	const { selected, contentText, parsedFile, stats, confirmImport, resumeImport, cancel, importOne, isRunning, progress, selectFile, failed, skipOnError, toggleSkipOnError, conflictPolicy, conflictSkips, cycleConflictPolicy, replaceBackReferences, toggleReplaceBackReferences, createOwnerDefinitions, toggleCreateOwnerDefinitions, concurrency, cycleConcurrency, pruneAfterImport, togglePruneAfterImport, pruneCandidates, confirmPrune, dismissPrune, throttle, entryCompletionStatus, plan, planPath, journalPath, dryRun, rollback } = useImport();
 	const { navigate } = useNavigation();
 	const { availableEnvs } = useEnvironment();
 
@@ -50,6 +55,8 @@ export function Import() {
 	const previewHeight = Math.max(5, totalRows - 12);
 	const [scroll, setScroll] = useState(0);
 	const [selectedRow, setSelectedRow] = useState(0);
+	// Rollback writes to the store, so it needs a second press to confirm
+	const [confirmRollback, setConfirmRollback] = useState(false);
 
 	const entries = useMemo(() => parsedFile?.entries ?? [], [parsedFile?.entries]);
 	useEffect(() => { setSelectedRow(0); setScroll(0); }, [parsedFile]);
@@ -83,9 +90,13 @@ export function Import() {
 	// Helper function to get phase display name
 	const getPhaseDisplayName = (phase: string): string => {
 		switch (phase) {
+			case 'definitions': return 'Applying Definitions';
 			case 'pre-resolve': return 'Resolving References';
 			case 'metaobjects': return 'Creating Metaobjects';
 			case 'backreferences': return 'Setting Backreferences';
+			case 'plan': return 'Planning (dry run)';
+			case 'rollback': return 'Rolling Back';
+			case 'prune': return 'Pruning';
 			default: return phase;
 		}
 	};
@@ -147,6 +158,12 @@ export function Import() {
 		return { total, completed, pending, processing, failed };
 	}, [entries.length, entryCompletionStatus]);
 
+	const conflictSkipBreakdown = useMemo(() => {
+		const counts = new Map<string, number>();
+		for (const reason of conflictSkips.values()) counts.set(reason, (counts.get(reason) ?? 0) + 1);
+		return ` (${Array.from(counts, ([reason, n]) => `${n} ${reason}`).join(', ')})`;
+	}, [conflictSkips]);
+
 	// Keyboard handling per step
 	useInput((input, key) => {
 		// Global back to Home
@@ -170,10 +187,33 @@ export function Import() {
 			
 			// Import operations - only when not running
 			if (!isRunning) {
+				// Prune confirmation after a full import
+				if (pruneCandidates && input === 'y') { confirmPrune(); return; }
+				if (pruneCandidates && input === 'n') { dismissPrune(); return; }
+				// Roll back the last journaled import of this file: Cmd/Ctrl+Z twice
+				if ((key.meta || key.ctrl) && input?.toLowerCase() === 'z' && parsedFile) {
+					if (confirmRollback) { setConfirmRollback(false); rollback(); } else setConfirmRollback(true);
+					return;
+				}
+				if (confirmRollback) setConfirmRollback(false);
 				// Toggle skip on error
 				if ((key.meta || key.ctrl) && input?.toLowerCase() === 's') { toggleSkipOnError(); return; }
+				// Cycle the conflict policy for entries whose handle may already exist
+				if ((key.meta || key.ctrl) && input?.toLowerCase() === 'u') { cycleConflictPolicy(); return; }
+				// Toggle merge/replace for back reference list metafields
+				if ((key.meta || key.ctrl) && input?.toLowerCase() === 'b') { toggleReplaceBackReferences(); return; }
+				// Toggle creating missing owner metafield definitions before back references
+				if ((key.meta || key.ctrl) && input?.toLowerCase() === 'o') { toggleCreateOwnerDefinitions(); return; }
+				// Cycle parallel upserts for full imports
+				if ((key.meta || key.ctrl) && input?.toLowerCase() === 'p') { cycleConcurrency(); return; }
+				// Toggle listing target entries missing from the file after a full import
+				if ((key.meta || key.ctrl) && input?.toLowerCase() === 'k') { togglePruneAfterImport(); return; }
 				// Full import: Cmd+G (prefer meta to avoid ctrl+g clash with navbar)
 				if ((key.meta || key.ctrl) && input?.toLowerCase() === 'g' && parsedFile) { confirmImport(); return; }
+				// Resume from the latest results file: Cmd/Ctrl+R
+				if ((key.meta || key.ctrl) && input?.toLowerCase() === 'r' && parsedFile) { resumeImport(); return; }
+				// Dry run: Cmd/Ctrl+D
+				if ((key.meta || key.ctrl) && input?.toLowerCase() === 'd' && parsedFile) { dryRun(); return; }
 				// Back to file selection: Cmd/Ctrl+X
 				if ((key.meta || key.ctrl) && input?.toLowerCase() === 'x') { setStep(1); return; }
 				// Full import: Cmd/Ctrl+Enter (be lenient about Enter detection)
@@ -184,6 +224,10 @@ export function Import() {
 					importOne(selectedRow);
 					return;
 				}
+			} else if ((key.meta || key.ctrl) && input?.toLowerCase() === 'x') {
+				// Cancel: stops at the next entry boundary and still writes the results summary
+				cancel();
+				return;
 			}
 			
 			// Navigation - always available (even during import)
@@ -237,6 +281,7 @@ export function Import() {
 	// Step 2: 3-column responsive layout
 	const header = selected ? `${selected.name} (${selected.type}) — ${new Date(selected.createdMs).toLocaleString()}` : 'No file selected';
 	const selectedEntry = entries[selectedRow];
+	const selectedPlan = plan?.entries[selectedRow];
 	
 	return (
 		<Box flexDirection="row" justifyContent="space-between">
@@ -261,6 +306,7 @@ export function Import() {
 					<Text>⏳ Processing: {completionStats.processing}</Text>
 					<Text>○ Pending: {completionStats.pending}</Text>
 					<Text>✖ Failed: {completionStats.failed}</Text>
+					{conflictSkips.size > 0 ? <Text>↷ Skipped by policy: {conflictSkips.size}{conflictSkipBreakdown}</Text> : null}
 					{isRunning && progress?.phase && (
 						<Box marginTop={1}>
 							<Text color="cyan">
@@ -271,6 +317,29 @@ export function Import() {
 						</Box>
 					)}
 				</Box>
+				{plan ? (
+					<Box marginTop={1} flexDirection="column">
+						<Text>Dry run plan:</Text>
+						<Text>+ Create: {plan.summary.create}</Text>
+						<Text>~ Update: {plan.summary.update}</Text>
+						<Text>= Unchanged: {plan.summary.unchanged}</Text>
+						{plan.summary.skip > 0 ? <Text>- Skipped ({conflictPolicy}): {plan.summary.skip}</Text> : null}
+						{plan.definitions.length > 0 ? <Text dimColor>Definitions: {plan.definitions.map(d => `${d.type} (${d.action})`).join(', ')}</Text> : null}
+						{plan.summary.unresolvedRefs > 0 ? <Text color="yellow">Unresolved refs: {plan.summary.unresolvedRefs}</Text> : null}
+						{plan.summary.unresolvedBackReferenceOwners > 0 ? <Text color="yellow">Unresolved backref owners: {plan.summary.unresolvedBackReferenceOwners}</Text> : null}
+						{plan.summary.resolvedByImport > 0 ? <Text dimColor>Refs created by this import: {plan.summary.resolvedByImport}</Text> : null}
+						{planPath ? <Text dimColor>Saved: {planPath}</Text> : null}
+					</Box>
+				) : null}
+				{journalPath ? <Text dimColor>Journal: {journalPath}</Text> : null}
+				{pruneCandidates ? (
+					<Box marginTop={1} flexDirection="column">
+						<Text color="yellow">Not in file ({pruneCandidates.length}):</Text>
+						{pruneCandidates.slice(0, 8).map(c => <Text key={c.id} dimColor>- {c.type}/{c.handle}</Text>)}
+						{pruneCandidates.length > 8 ? <Text dimColor>…and {pruneCandidates.length - 8} more</Text> : null}
+						<Text color="yellow">y: delete them • n: keep them</Text>
+					</Box>
+				) : null}
 				<Box marginTop={1} flexDirection="column">
 					<Text>Hotkeys</Text>
 					<Text dimColor>↑/↓: navigate entries</Text>
@@ -279,11 +348,26 @@ export function Import() {
 						<>
 							<Text dimColor>Enter: import selected</Text>
 							<Text dimColor>Cmd/Ctrl+G: import all</Text>
+							<Text dimColor>Cmd/Ctrl+R: resume from last results</Text>
+							<Text dimColor>Cmd/Ctrl+D: dry run (plan only)</Text>
+							{confirmRollback ? (
+								<Text color="yellow">Cmd/Ctrl+Z again to roll back the last import of this file</Text>
+							) : (
+								<Text dimColor>Cmd/Ctrl+Z: roll back last import</Text>
+							)}
 							<Text dimColor>Cmd/Ctrl+S: skip on error: {skipOnError ? 'ON' : 'OFF'}</Text>
+							<Text dimColor>Cmd/Ctrl+U: existing entries: {conflictPolicy.toUpperCase()}</Text>
+							<Text dimColor>Cmd/Ctrl+B: back references: {replaceBackReferences ? 'REPLACE' : 'MERGE'}</Text>
+							<Text dimColor>Cmd/Ctrl+P: parallel upserts: {concurrency}</Text>
+							<Text dimColor>Cmd/Ctrl+K: prune entries missing from file after import: {pruneAfterImport ? 'ON' : 'OFF'}</Text>
+							<Text dimColor>Cmd/Ctrl+O: create missing owner definitions: {createOwnerDefinitions ? 'ON' : 'OFF'}{parsedFile?.ownerMetafieldDefinitions?.length ? ` (${parsedFile.ownerMetafieldDefinitions.length} in file)` : ''}</Text>
 							<Text dimColor>Cmd/Ctrl+X: back</Text>
 						</>
 					) : (
-						<Text dimColor color="yellow">Import running - navigation only</Text>
+						<>
+							<Text dimColor color="yellow">Import running - navigation only</Text>
+							<Text dimColor>Cmd/Ctrl+X: cancel</Text>
+						</>
 					)}
 				</Box>
 			</Box>
@@ -311,7 +395,7 @@ export function Import() {
 					{selectedEntry ? (
 						<>
 							<Text>{selectedEntry.type}/{selectedEntry.handle}</Text>
-							<Text dimColor>Status: {getStatusDescription(selectedRow)}</Text>
+							<Text dimColor>Status: {getStatusDescription(selectedRow)}{conflictSkips.has(selectedRow) ? ` • skipped (${conflictSkips.get(selectedRow)})` : ''}</Text>
 							<Box marginTop={1} flexDirection="column">
 								{entryCompletionStatus.get(selectedRow) === 'backreferences-completed' ? (
 									<Text color="green">✔ Entry fully imported</Text>
@@ -334,6 +418,18 @@ export function Import() {
 									<Text dimColor>Press Enter to import this entry</Text>
 								) : null}
 							</Box>
+							{selectedPlan ? (
+								<Box marginTop={1} flexDirection="column">
+									<Text color="cyan">Dry run: would {selectedPlan.action === 'unchanged' ? 'leave unchanged' : selectedPlan.action === 'skip' ? `skip (${selectedPlan.skipReason ?? conflictPolicy})` : selectedPlan.action}</Text>
+									{selectedPlan.action === 'update' ? selectedPlan.changes.slice(0, 8).map(c => (
+										<Text key={c.key} dimColor>~ {c.key}: {truncate(c.from ?? '∅', 24)} → {truncate(c.to, 24)}</Text>
+									)) : null}
+									{selectedPlan.action === 'update' && selectedPlan.changes.length > 8 ? <Text dimColor>…and {selectedPlan.changes.length - 8} more fields</Text> : null}
+									{selectedPlan.unresolvedRefs.map(r => <Text key={r} color="yellow">Unresolved: {r}</Text>)}
+									{selectedPlan.unresolvedBackReferenceOwners.map(r => <Text key={r} color="yellow">Unresolved owner: {r}</Text>)}
+									{selectedPlan.mediaUploads.length > 0 ? <Text dimColor>Media uploads: {selectedPlan.mediaUploads.length}</Text> : null}
+								</Box>
+							) : null}
 						</>
 					) : (
 						<Text dimColor>No entry selected</Text>
@@ -364,9 +460,16 @@ export function Import() {
 									)}
 								</>
 							)}
+							{progress.phase === 'metaobjects' && progress.metaobjectsProcessed !== undefined ? (
+								<Text dimColor>Metaobjects: {progress.metaobjectsProcessed}/{progress.total}{progress.metaobjectsInFlight ? ` • ${progress.metaobjectsInFlight} in flight` : ''}</Text>
+							) : null}
+							{progress.phase === 'definitions' && progress.definitionsTotal ? (
+								<Text dimColor>Definitions: {progress.definitionsProcessed ?? 0}/{progress.definitionsTotal}</Text>
+							) : null}
 							{progress.phase === 'backreferences' && progress.backReferencesTotal ? (
 								<Text dimColor>Backreferences: {progress.backReferencesProcessed ?? 0}/{progress.backReferencesTotal}</Text>
 							) : null}
+							<ApiBudget status={throttle} />
 							{progress.error ? (
 								<Box marginTop={1}>
 									<Text color="red">⚠ Error: {progress.error}</Text>
@@ -0,0 +1,218 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { FocusTextInput } from '@ui/components/FocusTextInput';
+import { useFocusRegion } from '@context/FocusContext';
+import { useNavigation } from '@context/NavigationContext';
+import { useEnvironment } from '@context/EnvironmentContext';
+import { createShopifyClientFromEnvFile } from '@utils/shopify/env';
+import { runSync, type SyncResult } from '@utils/sync';
+import type { ExportProgress } from '@utils/exporter';
+import type { ImportProgress } from '@utils/importer';
+import { WizardHeader } from '@ui/components/WizardHeader';
+import { CheckboxRow } from '@ui/components/CheckboxRow';
+import { ButtonRow } from '@ui/components/ButtonRow';
+import { ApiBudget } from '@ui/components/ApiBudget';
+import { CancelledError, type ThrottleStatus } from '@utils/shopify/client';
+
+export function Sync() {
+	useFocusRegion('page:sync', true);
+	const { availableEnvs, selectedEnv } = useEnvironment();
+	const { navigate } = useNavigation();
+
+	const [sourceIndex, setSourceIndex] = useState<number>(() => Math.max(0, availableEnvs.findIndex(e => e.name === selectedEnv?.name)));
+	const [targetIndex, setTargetIndex] = useState<number>(() => availableEnvs.findIndex(e => e.name !== selectedEnv?.name));
+	const [types, setTypes] = useState<string[]>([]);
+	const [newType, setNewType] = useState<string>('');
+	const [includeBackRefs, setIncludeBackRefs] = useState<boolean>(false);
+	const [focusIndex, setFocusIndex] = useState<number>(0); // 0: source, 1: target, 2: input, 3: list, 4: includeBackRefs, 5: run
+	const [listIndex, setListIndex] = useState<number>(0);
+	const [step, setStep] = useState<number>(1); // 1=Form, 2=Run
+
+	const [running, setRunning] = useState<boolean>(false);
+	const [phase, setPhase] = useState<'export' | 'import' | undefined>(undefined);
+	const [exportProgress, setExportProgress] = useState<ExportProgress | undefined>(undefined);
+	const [importProgress, setImportProgress] = useState<ImportProgress | undefined>(undefined);
+	const [throttle, setThrottle] = useState<ThrottleStatus | undefined>(undefined);
+	const [result, setResult] = useState<SyncResult | undefined>(undefined);
+	const [error, setError] = useState<string | undefined>(undefined);
+	const [cancelled, setCancelled] = useState<boolean>(false);
+	const abortRef = useRef<AbortController | undefined>(undefined);
+
+	const source = availableEnvs[sourceIndex];
+	const target = targetIndex >= 0 ? availableEnvs[targetIndex] : undefined;
+	const sameEnv = Boolean(source && target && source.name === target.name);
+	const hasList = types.length > 0;
+	const maxFocus = 5;
+	const canRun = Boolean(source && target) && !sameEnv && types.length > 0 && !running;
+	const envCount = availableEnvs.length;
+
+	const completed = useMemo(() => {
+		let n = 0;
+		for (const status of importProgress?.entryCompletionStatus?.values() ?? []) if (status === 'backreferences-completed') n++;
+		return n;
+	}, [importProgress]);
+
+	function clampFocus(idx: number, dir: number): number {
+		const next = Math.max(0, Math.min(idx, maxFocus));
+		if (!hasList && next === 3) return dir > 0 ? 4 : 2;
+		return next;
+	}
+
+	function addType(value: string) {
+		const t = value.trim();
+		if (!t) return;
+		setTypes(prev => (prev.includes(t) ? prev : [...prev, t]));
+		setNewType('');
+	}
+
+	useInput((input, key) => {
+		if (step === 1) {
+			if (key.escape) { navigate('home'); return; }
+			if (key.tab && !key.shift) { setFocusIndex(i => clampFocus(i + 1, 1)); return; }
+			if (key.tab && key.shift) { setFocusIndex(i => clampFocus(i - 1, -1)); return; }
+
+			if (focusIndex === 0 && envCount > 0) {
+				if (key.leftArrow) { setSourceIndex(i => (i - 1 + envCount) % envCount); return; }
+				if (key.rightArrow) { setSourceIndex(i => (i + 1) % envCount); return; }
+			}
+			if (focusIndex === 1 && envCount > 0) {
+				if (key.leftArrow) { setTargetIndex(i => (i - 1 + envCount) % envCount); return; }
+				if (key.rightArrow) { setTargetIndex(i => (i + 1) % envCount); return; }
+			}
+			if (focusIndex === 2) {
+				if (key.return) { addType(newType); return; }
+			}
+			if (focusIndex === 3) {
+				if (key.upArrow) { setListIndex(i => Math.max(0, i - 1)); return; }
+				if (key.downArrow) { setListIndex(i => Math.min(types.length - 1, i + 1)); return; }
+				if (key.backspace || key.delete) {
+					setTypes(prev => prev.filter((_, i) => i !== listIndex));
+					setListIndex(i => Math.max(0, i - 1));
+					return;
+				}
+			}
+			if (focusIndex === 4) {
+				if (key.return || input === ' ') { setIncludeBackRefs(v => !v); return; }
+			}
+			if (focusIndex === 5) {
+				if (key.return && canRun) { void run(); return; }
+			}
+		} else {
+			if (!running && key.escape) { setStep(1); return; }
+			// Cancel: stops at the next page or entry boundary; the export and results so far are kept
+			if (running && (key.meta || key.ctrl) && input?.toLowerCase() === 'x') { abortRef.current?.abort(); setCancelled(true); return; }
+		}
+	});
+
+	async function run() {
+		if (!source || !target) return;
+		setRunning(true);
+		setError(undefined);
+		setResult(undefined);
+		setExportProgress(undefined);
+		setImportProgress(undefined);
+		setThrottle(undefined);
+		setCancelled(false);
+		setPhase('export');
+		setStep(2);
+		const controller = new AbortController();
+		abortRef.current = controller;
+		try {
+			const sourceClient = createShopifyClientFromEnvFile(source.path, { onThrottleStatus: setThrottle });
+			const targetClient = createShopifyClientFromEnvFile(target.path, { onThrottleStatus: setThrottle });
+			const res = await runSync(sourceClient, targetClient, {
+				cwd: process.cwd(),
+				sourceEnvName: source.name,
+				targetEnvName: target.name,
+				types,
+				includeBackReferences: includeBackRefs,
+				// Reading and writing alternate page by page
+				onExportProgress: (p) => { setPhase('export'); setExportProgress(p); },
+				onImportProgress: (p) => { setPhase('import'); setImportProgress(p); },
+				signal: controller.signal
+			});
+			setResult(res);
+		} catch (e) {
+			setError(e instanceof CancelledError ? e.message : String(e));
+		} finally {
+			setRunning(false);
+		}
+	}
+
+	if (step === 1) {
+		return (
+			<Box flexDirection="column">
+				<WizardHeader title="Sync" step={1} total={2} />
+				{envCount < 2 ? (
+					<Text color="yellow">Sync needs at least two environments; create one in Environments</Text>
+				) : null}
+				<Box>
+					<Text color={focusIndex === 0 ? 'yellow' : 'white'}>Source: ‹ {source?.name ?? 'none'} ›</Text>
+				</Box>
+				<Box>
+					<Text color={focusIndex === 1 ? 'yellow' : 'white'}>Target: ‹ {target?.name ?? 'none'} ›</Text>
+				</Box>
+				{sameEnv ? <Text color="red">Source and target must differ</Text> : null}
+				<Box flexDirection="column" marginTop={1}>
+					<Text>Metaobject types</Text>
+					<Box>
+						<Text color={focusIndex === 2 ? 'yellow' : 'gray'}>Add type:</Text>
+						<Box marginLeft={1}>
+							<FocusTextInput focus={focusIndex === 2} value={newType} onChange={setNewType} placeholder="Supports $app: prefix" />
+						</Box>
+					</Box>
+					{hasList ? (
+						<Box flexDirection="column" marginTop={1}>
+							{types.map((t, idx) => (
+								<Text key={`${t}-${idx}`} color={focusIndex === 3 && listIndex === idx ? 'yellow' : 'white'}>
+									{focusIndex === 3 && listIndex === idx ? '› ' : '  '}{t}
+								</Text>
+							))}
+							<Text dimColor>↑/↓ select • ⌫/Del remove</Text>
+						</Box>
+					) : (
+						<Text dimColor>No types added yet</Text>
+					)}
+				</Box>
+				<Box marginTop={1}>
+					<CheckboxRow label="Include metaobject entry parent references" checked={includeBackRefs} focused={focusIndex === 4} />
+				</Box>
+				<Box marginTop={1}>
+					<Text dimColor>←/→ change environment • Tab/Shift+Tab to move • Esc to go back</Text>
+				</Box>
+				<Box marginTop={1}>
+					<ButtonRow label={canRun ? 'Run sync' : 'Run sync (pick two environments and a type)'} focused={focusIndex === 5} />
+				</Box>
+			</Box>
+		);
+	}
+
+	// Step 2: Run progress
+	return (
+		<Box flexDirection="column">
+			<WizardHeader title="Sync" step={2} total={2} />
+			<Text>{source?.name ?? 'unknown'} → {target?.name ?? 'unknown'} • {types.join(', ')}</Text>
+			<Box marginTop={1} flexDirection="column">
+				<Text color={phase === 'export' && running ? 'cyan' : undefined}>Read source: {exportProgress ? `${exportProgress.currentType ? `${exportProgress.currentType} • ` : ''}${exportProgress.message}${exportProgress.count !== undefined ? ` (${exportProgress.count})` : ''}` : 'waiting'}</Text>
+				{exportProgress?.error ? <Text color="red">{exportProgress.error}</Text> : null}
+				<Text color={phase === 'import' && running ? 'cyan' : undefined}>Write target: {importProgress ? `${importProgress.message ?? ''}` : 'waiting'}</Text>
+				{importProgress ? <Text dimColor>Completed {completed}/{importProgress.total}</Text> : null}
+				{importProgress?.error ? <Text color="red">{importProgress.error}</Text> : null}
+				{running ? <ApiBudget status={throttle} /> : null}
+			</Box>
+			{error ? (
+				<Box marginTop={1}><Text color="red">{error}</Text></Box>
+			) : null}
+			{result ? (
+				<Box marginTop={1} flexDirection="column">
+					<Text color="cyan">Export: {result.exportPath}</Text>
+					<Text color="cyan">Results: {result.resultsPath}</Text>
+					<Text dimColor>Journal: {result.journalPath}</Text>
+				</Box>
+			) : null}
+			<Box marginTop={1}>
+				<Text dimColor>{running ? (cancelled ? 'Cancelling at the next boundary…' : 'Cmd/Ctrl+X: cancel') : 'Esc: back to the form'}</Text>
+			</Box>
+		</Box>
+	);
+}
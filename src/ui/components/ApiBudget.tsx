@@ -0,0 +1,14 @@
+import React from 'react';
+import { Text } from 'ink';
+import type { ThrottleStatus } from '@utils/shopify/client';
+
+export function ApiBudget({ status }: { status?: ThrottleStatus }) {
+	if (!status) return null;
+	const available = Math.max(0, Math.floor(status.currentlyAvailable));
+	const low = available < status.maximumAvailable * 0.1;
+	return (
+		<Text dimColor={!low} color={low ? 'yellow' : undefined}>
+			API budget: {available}/{status.maximumAvailable} points (+{status.restoreRate}/s){low ? ' • pacing requests' : ''}
+		</Text>
+	);
+}
\ No newline at end of file
@@ -2,9 +2,11 @@ import React from 'react';
 import { Home } from '@ui/Home';
 import { Import } from '@ui/Import';
 import { Export } from '@ui/Export';
+import { Sync } from '@ui/Sync';
+import { Compare } from '@ui/Compare';
 import { EnvSetup } from '@ui/setup/EnvSetup';
 
-export type NavKey = 'home' | 'import' | 'export' | 'env';
+export type NavKey = 'home' | 'import' | 'export' | 'sync' | 'compare' | 'env';
 
 export type PageConfig<K extends string = string> = {
 	key: K;
@@ -17,5 +19,7 @@ export const pages: PageConfig<NavKey>[] = [
 	{ key: 'home', title: 'Home', hotkey: 'h', component: Home },
 	{ key: 'import', title: 'Import', hotkey: 'i', component: Import },
 	{ key: 'export', title: 'Export', hotkey: 'e', component: Export },
+	{ key: 'sync', title: 'Sync', hotkey: 'y', component: Sync },
+	{ key: 'compare', title: 'Compare', hotkey: 'c', component: Compare },
 	{ key: 'env', title: 'Environments', hotkey: 'n', component: EnvSetup }
 ]; 
\ No newline at end of file
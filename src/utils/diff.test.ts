@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { BackReference, ExportEntry, ExportFile } from '@utils/schema';
+import { compareSides, diffExportFiles } from '@utils/diff';
+import { FakeShopifyClient } from '@utils/shopify/fakeClient';
+
+const fileOf = (entries: ExportEntry[]): ExportFile => ({ types: ['recipe'], count: entries.length, entries });
+const recipe = (handle: string, fields: Record<string, unknown>, backReferences?: BackReference[]): ExportEntry => ({ type: 'recipe', handle, fields, backReferences });
+const onPot: BackReference = { ownerType: 'Product', owner: 'handle://shopify/Product/pot', namespace: 'custom', key: 'recipe' };
+const onPan: BackReference = { ownerType: 'Product', owner: 'handle://shopify/Product/pan', namespace: 'custom', key: 'recipe' };
+
+test('entries are added, removed or changed by field, with equal values in other encodings left alone', () => {
+	const left = fileOf([
+		recipe('soup', { title: 'Soup', servings: 4, tags: ['hot', 'quick'] }),
+		recipe('stew', { title: 'Stew' }),
+		recipe('pie', { title: 'Pie', note: '' }),
+	]);
+	const right = fileOf([
+		recipe('soup', { title: 'Soup!', servings: '4', tags: '["hot","quick"]' }),
+		recipe('pie', { title: 'Pie' }),
+		recipe('tart', { title: 'Tart' }),
+	]);
+	const report = diffExportFiles(left, right, { left: 'a.json', right: 'b.json' });
+
+	assert.deepEqual(report.summary, { added: 1, removed: 1, changed: 1, unchanged: 1 });
+	assert.deepEqual(report.entries.map(e => `${e.handle} ${e.status}`), ['soup changed', 'stew removed', 'tart added']);
+	assert.deepEqual(report.entries[0].fields, [{ key: 'title', left: 'Soup', right: 'Soup!' }]);
+});
+
+test('back references are compared by owner and metafield only when both sides carry them', () => {
+	const left = fileOf([recipe('soup', {}, [onPot, { ...onPan, namespace: 'app--123--custom' }]), recipe('stew', {})]);
+	const right = fileOf([recipe('soup', {}, [onPot]), recipe('stew', {}, [onPan])]);
+	const report = diffExportFiles(left, right, { left: 'a.json', right: 'b.json' });
+
+	assert.deepEqual(report.entries.map(e => [e.handle, e.backReferences]), [
+		['soup', { added: [], removed: ['handle://shopify/Product/pan $app:custom.recipe'] }],
+		['stew', { added: ['handle://shopify/Product/pan custom.recipe'], removed: [] }],
+	]);
+
+	const withoutBackReferences = fileOf([recipe('soup', {}), recipe('stew', {})]);
+	assert.deepEqual(diffExportFiles(withoutBackReferences, right, { left: 'a.json', right: 'b.json' }).summary.unchanged, 2);
+});
+
+test('ids retained by one export are not reported as changed against handle refs', () => {
+	const left = fileOf([recipe('soup', { title: 'Soup', related: ['gid://shopify/Metaobject/11'] })]);
+	const right = fileOf([recipe('soup', { title: 'Soup', related: ['handle://shopify/Metaobject/recipe/stew'] })]);
+	assert.equal(diffExportFiles(left, right, { left: 'a.json', right: 'b.json' }).summary.unchanged, 1);
+});
+
+test('a store compared with a file that has back references is read with back references', async () => {
+	const cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'diff-test-'));
+	try {
+		const referencedBy = { pageInfo: { hasNextPage: false }, edges: [{ node: { namespace: 'custom', key: 'recipe', referencer: { __typename: 'Product', id: 'gid://shopify/Product/1', handle: 'pot' } } }] };
+		const client = new FakeShopifyClient({
+			MetaobjectDefinitionByType: () => ({ data: { metaobjectDefinitionByType: null } }),
+			MetaobjectsPage: () => ({ data: { metaobjects: { pageInfo: { hasNextPage: false }, nodes: [{ id: 'gid://shopify/Metaobject/1', handle: 'soup', type: 'recipe', fields: [], referencedBy }] } } }),
+		});
+		const file = fileOf([recipe('soup', {}, [onPot, onPan])]);
+		const report = await compareSides({ name: '.env.test', client }, { name: 'a.json', file }, { types: ['recipe'], cwd });
+
+		assert.deepEqual(report.entries.map(e => e.backReferences), [{ added: ['handle://shopify/Product/pan custom.recipe'], removed: [] }]);
+	} finally {
+		fs.rmSync(cwd, { recursive: true, force: true });
+	}
+});
@@ -0,0 +1,153 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { ShopifyGraphQLClient } from '@utils/shopify/client';
+import { buildExport, type ExportProgress } from '@utils/exporter';
+import { sameFieldValue, serialiseField } from '@utils/importer';
+import { normaliseAppNamespace, type ExportEntry, type ExportFile } from '@utils/schema';
+
+export type FieldDiff = { key: string; left: string | null; right: string | null };
+
+export type EntryDiff = {
+	type: string;
+	handle: string;
+	// added: only on the right; removed: only on the left; changed: on both with different fields
+	status: 'added' | 'removed' | 'changed';
+	fields: FieldDiff[];
+	// Back references as `<owner> <namespace>.<key>`; only present when they differ
+	backReferences?: { added: string[]; removed: string[] };
+};
+
+export type DiffReport = {
+	left: string; // environment or file name
+	right: string;
+	types: string[];
+	createdAt: string;
+	summary: { added: number; removed: number; changed: number; unchanged: number };
+	entries: EntryDiff[];
+};
+
+// Either a store (fetched now) or an export file already on disk
+export type DiffSide = { name: string; client: ShopifyGraphQLClient } | { name: string; file: ExportFile };
+
+export type DiffProgress = { side: 'left' | 'right'; name: string; export?: ExportProgress; message: string };
+
+// Fetches both sides the way an export does (references as handle refs) so entries compare across stores.
+// Back references are fetched only when a file on the other side has them
+export async function compareSides(left: DiffSide, right: DiffSide, opts: { types: string[]; cwd: string; onProgress?: (p: DiffProgress) => void; signal?: AbortSignal }): Promise<DiffReport> {
+	const includeBackReferences = [left, right].some(side => 'file' in side && carriesBackReferences(side.file));
+	const load = async (side: DiffSide, which: 'left' | 'right'): Promise<ExportFile> => {
+		if ('file' in side) return side.file;
+		opts.onProgress?.({ side: which, name: side.name, message: `Reading ${side.name}…` });
+		const file = await buildExport(side.client, {
+			cwd: opts.cwd,
+			environmentFileName: side.name,
+			types: opts.types,
+			retainIds: false,
+			includeBackReferences,
+			onProgress: (p) => opts.onProgress?.({ side: which, name: side.name, export: p, message: p.message }),
+			signal: opts.signal
+		});
+		if (file.partial) throw new Error(`Reading ${side.name} was cancelled`);
+		return file;
+	};
+	const leftFile = await load(left, 'left');
+	const rightFile = await load(right, 'right');
+	return diffExportFiles(leftFile, rightFile, { left: left.name, right: right.name, types: opts.types });
+}
+
+// Offline: only the two files are read. Types default to every type found on either side
+export function diffExportFiles(left: ExportFile, right: ExportFile, opts: { left: string; right: string; types?: string[] }): DiffReport {
+	const types = opts.types && opts.types.length > 0
+		? opts.types
+		: Array.from(new Set(left.entries.concat(right.entries).map(e => e.type))).sort();
+	const wanted = new Set(types);
+	const index = (file: ExportFile) => new Map(file.entries.filter(e => wanted.has(e.type)).map(e => [`${e.type}/${e.handle}`, e]));
+	const leftByKey = index(left);
+	const rightByKey = index(right);
+	// A file exported without back references says nothing about them, so they are only compared when both sides have them
+	const backReferenceDiff = carriesBackReferences(left) && carriesBackReferences(right) ? diffBackReferences : () => undefined;
+
+	const entries: EntryDiff[] = [];
+	let unchanged = 0;
+	for (const [key, l] of leftByKey) {
+		const r = rightByKey.get(key);
+		if (!r) {
+			entries.push({ type: l.type, handle: l.handle, status: 'removed', fields: fieldDiffs(l, undefined), backReferences: backReferenceDiff(l, undefined) });
+			continue;
+		}
+		const fields = fieldDiffs(l, r);
+		const backReferences = backReferenceDiff(l, r);
+		if (fields.length === 0 && !backReferences) unchanged++;
+		else entries.push({ type: l.type, handle: l.handle, status: 'changed', fields, backReferences });
+	}
+	for (const [key, r] of rightByKey) {
+		if (!leftByKey.has(key)) entries.push({ type: r.type, handle: r.handle, status: 'added', fields: fieldDiffs(undefined, r), backReferences: backReferenceDiff(undefined, r) });
+	}
+	entries.sort((a, b) => a.type.localeCompare(b.type) || a.handle.localeCompare(b.handle));
+
+	return {
+		left: opts.left,
+		right: opts.right,
+		types,
+		createdAt: new Date().toISOString(),
+		summary: {
+			added: entries.filter(e => e.status === 'added').length,
+			removed: entries.filter(e => e.status === 'removed').length,
+			changed: entries.filter(e => e.status === 'changed').length,
+			unchanged
+		},
+		entries
+	};
+}
+
+export function writeDiffReport(cwd: string, report: DiffReport): string {
+	const dir = path.join(cwd, 'outputs');
+	fs.mkdirSync(dir, { recursive: true });
+	const name = (s: string) => path.basename(s).replace(/\.json$/, '').replace(/[^\w.-]+/g, '_');
+	const fileName = `${name(report.left)}-vs-${name(report.right)}-diff-${report.createdAt.replace(/[:.]/g, '-')}.json`;
+	fs.writeFileSync(path.join(dir, fileName), JSON.stringify(report, null, 2), 'utf8');
+	return path.join(dir, fileName);
+}
+
+function fieldDiffs(left: ExportEntry | undefined, right: ExportEntry | undefined): FieldDiff[] {
+	const keys = Array.from(new Set(Object.keys(left?.fields ?? {}).concat(Object.keys(right?.fields ?? {})))).sort();
+	const diffs: FieldDiff[] = [];
+	for (const key of keys) {
+		const l = fieldText(left?.fields[key]);
+		const r = fieldText(right?.fields[key]);
+		if (l === null && r === null) continue;
+		if (l !== null && r !== null && sameFieldValue(l, r)) continue;
+		// Ids retained by one export can't be matched against the other side's handle refs without the source store
+		if (l !== null && r !== null && ((holdsIds(l) && holdsHandleRefs(r)) || (holdsIds(r) && holdsHandleRefs(l)))) continue;
+		if ((l === null && r === '') || (r === null && l === '')) continue;
+		diffs.push({ key, left: l, right: r });
+	}
+	return diffs;
+}
+
+function diffBackReferences(left: ExportEntry | undefined, right: ExportEntry | undefined): EntryDiff['backReferences'] {
+	const refs = (e: ExportEntry | undefined) => new Set((e?.backReferences ?? []).map(br => `${br.owner} ${normaliseAppNamespace(br.namespace)}.${br.key}`));
+	const l = refs(left);
+	const r = refs(right);
+	const added = Array.from(r).filter(x => !l.has(x)).sort();
+	const removed = Array.from(l).filter(x => !r.has(x)).sort();
+	return added.length > 0 || removed.length > 0 ? { added, removed } : undefined;
+}
+
+// Back references are only written when the export asked for them; entries without any carry no key
+function carriesBackReferences(file: ExportFile): boolean {
+	return file.entries.some(e => e.backReferences && e.backReferences.length > 0);
+}
+
+function holdsIds(text: string): boolean {
+	return text.includes('gid://shopify/');
+}
+
+function holdsHandleRefs(text: string): boolean {
+	return text.includes('handle://shopify/');
+}
+
+function fieldText(value: unknown): string | null {
+	if (value === undefined || value === null) return null;
+	return serialiseField(value);
+}
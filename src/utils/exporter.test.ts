@@ -0,0 +1,78 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { ExportFile } from '@utils/schema';
+import { findIncrementalBase, runExport } from '@utils/exporter';
+import { FakeShopifyClient } from '@utils/shopify/fakeClient';
+
+const dirs: string[] = [];
+after(() => { for (const dir of dirs) fs.rmSync(dir, { recursive: true, force: true }); });
+
+function outputsWith(files: Record<string, Partial<ExportFile>>): string {
+	const cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'exporter-test-'));
+	dirs.push(cwd);
+	fs.mkdirSync(path.join(cwd, 'outputs'));
+	for (const [name, file] of Object.entries(files)) {
+		fs.writeFileSync(path.join(cwd, 'outputs', name), JSON.stringify({ environment: '.env.test', types: ['recipe'], count: 0, entries: [], ...file }));
+	}
+	return cwd;
+}
+
+test('the watermark is moved back by a safety margin for clock skew', () => {
+	const cwd = outputsWith({ 'full.json': { exportedAt: '2026-03-01T12:00:00.000Z' } });
+	const base = findIncrementalBase(cwd, '.env.test', ['recipe']);
+	assert.equal(base?.name, 'full.json');
+	assert.equal(base?.exportedAt, '2026-03-01T12:00:00.000Z');
+	assert.equal(base?.since, '2026-03-01T11:55:00.000Z');
+});
+
+test('a file filtered by a hand-picked updatedSince is not a base, but an incremental export is', () => {
+	const cwd = outputsWith({
+		'full.json': { exportedAt: '2026-03-01T12:00:00.000Z' },
+		'filtered.json': { exportedAt: '2026-03-03T12:00:00.000Z', filters: { updatedSince: '2026-03-02T00:00:00.000Z' } },
+	});
+	assert.equal(findIncrementalBase(cwd, '.env.test', ['recipe'])?.name, 'full.json');
+
+	fs.writeFileSync(path.join(cwd, 'outputs', 'delta.json'), JSON.stringify({ environment: '.env.test', types: ['recipe'], count: 0, entries: [], exportedAt: '2026-03-02T12:00:00.000Z', incrementalFrom: 'full.json', filters: { updatedSince: '2026-03-01T11:55:00.000Z' } }));
+	assert.equal(findIncrementalBase(cwd, '.env.test', ['recipe'])?.name, 'delta.json');
+});
+
+test('partial files, narrowed deltas and other type sets are never a base', () => {
+	const cwd = outputsWith({
+		'partial.json': { exportedAt: '2026-03-02T12:00:00.000Z', partial: true },
+		'narrowed-delta.json': { exportedAt: '2026-03-03T12:00:00.000Z', incrementalFrom: 'x.json', filters: { updatedSince: '2026-03-01T00:00:00.000Z', handles: ['soup'] } },
+		'other-types.json': { exportedAt: '2026-03-04T12:00:00.000Z', types: ['recipe', 'ingredient'] },
+	});
+	assert.equal(findIncrementalBase(cwd, '.env.test', ['recipe']), undefined);
+});
+
+test('a page that fails mid-export aborts the export instead of writing a base for incremental exports', async () => {
+	const cwd = outputsWith({});
+	const node = (handle: string) => ({ id: `gid://shopify/Metaobject/${handle}`, handle, type: 'recipe', fields: [], referencedBy: null });
+	const client = new FakeShopifyClient({
+		MetaobjectDefinitionByType: () => ({ data: { metaobjectDefinitionByType: null } }),
+		MetaobjectsPage: ({ variables }) => variables.after
+			? { errors: [{ message: 'Internal error. Looks like something went wrong on our end.' }] }
+			: { data: { metaobjects: { pageInfo: { hasNextPage: true, endCursor: 'page-1' }, nodes: [node('soup'), node('stew')] } } },
+	});
+
+	await assert.rejects(runExport(client, { cwd, environmentFileName: '.env.test', types: ['recipe'], retainIds: false }), /Failed to export recipe entries: Internal error/);
+	assert.deepEqual(fs.readdirSync(path.join(cwd, 'outputs')), []);
+	assert.equal(findIncrementalBase(cwd, '.env.test', ['recipe']), undefined);
+});
+
+test('a search filter Shopify rejects fails the export instead of writing an empty filtered file', async () => {
+	const cwd = outputsWith({});
+	const client = new FakeShopifyClient({
+		MetaobjectDefinitionByType: () => ({ data: { metaobjectDefinitionByType: null } }),
+		MetaobjectsPage: ({ variables }) => ({ errors: [{ message: `Invalid search query: ${String(variables.query)}` }] }),
+	});
+
+	await assert.rejects(
+		runExport(client, { cwd, environmentFileName: '.env.test', types: ['recipe'], retainIds: false, filters: { query: 'updated_at:>>' } }),
+		/Failed to export recipe entries matching "\(updated_at:>>\)": Invalid search query/
+	);
+	assert.deepEqual(fs.readdirSync(path.join(cwd, 'outputs')), []);
+});
@@ -1,9 +1,11 @@
 import fs from 'node:fs';
 import path from 'node:path';
-import { ShopifyGraphQLClient } from '@utils/shopify/client';
-import { fetchAllMetaobjects, extractHandleRefsFromFields, isGid, type MetaobjectNode, fetchBackReferencesFrom, extractInitialBackReferencesFromNode } from '@utils/shopify/metaobjects';
-import type { ExportFile, ExportEntry } from '@utils/schema';
-import { normaliseMetaobjectType } from '@utils/schema';
+import { CancelledError, ShopifyGraphQLClient } from '@utils/shopify/client';
+import { fetchAllMetaobjects, fetchAllMetaobjectsBulk, extractHandleRefsFromFields, isGid, type MetaobjectNode, fetchBackReferencesFrom, extractInitialBackReferencesFromNode } from '@utils/shopify/metaobjects';
+import { fetchMetaobjectDefinitionForExport, fetchOwnerMetafieldDefinitionsForExport, listMetaobjectDefinitions } from '@utils/shopify/definitions';
+import type { ExportFile, ExportEntry, ExportFilters, MetaobjectDefinitionExport, OwnerMetafieldDefinitionExport } from '@utils/schema';
+import { normaliseMetaobjectType, parseExportFile } from '@utils/schema';
+import { listOutputFiles } from '@utils/outputs';
 
 export type ExportProgress = {
 	phase: 'fetch' | 'write';
@@ -13,6 +15,8 @@ export type ExportProgress = {
 	currentType?: string;
 	backRefCount?: number;
 	doneType?: boolean;
+	typeCount?: number; // number of types an all-types export covers, sent once they are listed
+	dependencies?: Record<string, number>; // entries pulled in per type, sent once references are followed
 	error?: string;
 };
 
@@ -22,21 +26,130 @@ export type ExportOptions = {
 	types: string[];
 	retainIds: boolean;
 	includeBackReferences?: boolean;
+	// pages: paginated queries (default); bulk: one Bulk Operations query per type, for very large types
+	engine?: 'pages' | 'bulk';
+	// Only export matching entries; applied to every type and recorded in the file
+	filters?: ExportFilters;
+	// Only entries updated since the newest complete export of the same environment and types (see findIncrementalBase)
+	incremental?: boolean;
+	// Also export every metaobject entry the exported entries reference, recursively and of any type
+	includeDependencies?: boolean;
 	onProgress?: (p: ExportProgress) => void;
+	// Stops at the next page boundary; what was fetched so far is written as a partial export
+	signal?: AbortSignal;
+	// Streaming consumers (sync): the definitions of the requested types, read before any entry
+	onDefinitions?: (definitions: MetaobjectDefinitionExport[]) => Promise<void>;
+	// Streaming consumers: each page of entries with its back references, before the next page is read.
+	// Types are read one after another, so a page of a new type means the earlier types are complete
+	onEntries?: (entries: ExportEntry[], type: string) => Promise<void>;
+};
+
+export type ExportAllOptions = Omit<ExportOptions, 'types'> & {
+	prefix?: string; // only types starting with it, e.g. $app:
+	perType?: boolean; // one file per type instead of one combined file
 };
 
 export async function runExport(client: ShopifyGraphQLClient, opts: ExportOptions): Promise<string> {
+	return writeExportFile(opts, await buildExport(client, opts));
+}
+
+// Lists the store's definitions and exports every type; returns the files written.
+// Per-type files stop after the first partial one when cancelled.
+export async function runExportAll(client: ShopifyGraphQLClient, opts: ExportAllOptions): Promise<string[]> {
+	opts.onProgress?.({ phase: 'fetch', message: 'Listing metaobject definitions…' });
+	const types = (await listMetaobjectDefinitions(client, opts.signal)).map(d => d.type).filter(t => !opts.prefix || t.startsWith(opts.prefix));
+	if (types.length === 0) throw new Error(opts.prefix ? `No metaobject definitions start with ${opts.prefix}` : 'No metaobject definitions in this store');
+	opts.onProgress?.({ phase: 'fetch', message: `Exporting ${types.length} types`, typeCount: types.length });
+	if (!opts.perType) {
+		const file = await buildExport(client, { ...opts, types });
+		return [writeExportFile({ ...opts, types, label: opts.prefix ? `all-${opts.prefix.replace(/[^\w-]+/g, '')}` : 'all' }, file)];
+	}
+	const paths: string[] = [];
+	for (const type of types) {
+		if (opts.signal?.aborted) break;
+		const file = await buildExport(client, { ...opts, types: [type] });
+		paths.push(writeExportFile({ ...opts, types: [type] }, file));
+		if (file.partial) break;
+	}
+	return paths;
+}
+
+// `since` is the base's watermark less WATERMARK_MARGIN_MS; entries are filtered on it
+export type IncrementalBase = { path: string; name: string; exportedAt: string; since: string };
+
+// exportedAt is this machine's clock but Shopify filters on its own updated_at, so a fast local clock would
+// drop entries saved just before the base export; re-exporting a few unchanged ones is harmless
+const WATERMARK_MARGIN_MS = 5 * 60 * 1000;
+
+// Newest export in outputs/ an incremental export can build on: same environment and type set, complete,
+// and either unfiltered or an incremental export with no other filter (so deltas chain). A file narrowed by a
+// hand-picked updatedSince, handles or a search query may be missing entries older than its own watermark
+export function findIncrementalBase(cwd: string, environmentFileName: string, types: string[]): IncrementalBase | undefined {
+	const wanted = types.slice().sort().join('\n');
+	let best: IncrementalBase | undefined;
+	for (const f of listOutputFiles(cwd)) {
+		if (f.type !== 'json' || f.environment !== environmentFileName) continue;
+		try {
+			const { file } = parseExportFile(fs.readFileSync(f.path, 'utf8'));
+			if (!file.exportedAt || !file.types || file.partial || Number.isNaN(Date.parse(file.exportedAt))) continue;
+			if (file.filters?.handles || file.filters?.query || (file.filters && !file.incrementalFrom)) continue;
+			if (file.types.slice().sort().join('\n') !== wanted) continue;
+			if (!best || file.exportedAt > best.exportedAt) {
+				best = { path: f.path, name: f.name, exportedAt: file.exportedAt, since: new Date(Date.parse(file.exportedAt) - WATERMARK_MARGIN_MS).toISOString() };
+			}
+		} catch {
+			// not an export file
+		}
+	}
+	return best;
+}
+
+// Fetches everything runExport writes, without writing it; `partial` is set when the signal stopped it early
+export async function buildExport(client: ShopifyGraphQLClient, opts: ExportOptions): Promise<ExportFile> {
 	const allEntries: ExportEntry[] = [];
 	const dependsOnMap = new Map<string, Set<string>>(); // key:type/handle -> set of handle refs
+	const definitions: MetaobjectDefinitionExport[] = [];
+	const definitionTypeById = new Map<string, string | null>();
+	let cancelled = false;
+	// Taken before fetching so entries changed while the export runs are picked up next time
+	const exportedAt = new Date().toISOString();
+	const base = opts.incremental ? findIncrementalBase(opts.cwd, opts.environmentFileName, opts.types) : undefined;
+	if (opts.incremental) {
+		opts.onProgress?.({ phase: 'fetch', message: base ? `Incremental since ${base.since} (${base.name})` : 'No previous export of these types; exporting everything' });
+	}
+	const filters = activeFilters(base ? { ...opts.filters, updatedSince: base.since } : opts.filters);
+	if (filters?.updatedSince && Number.isNaN(Date.parse(filters.updatedSince))) throw new Error(`Invalid updatedAt date ${filters.updatedSince}`);
+	const searchQueries = filterSearchQueries(filters);
+	const handleSet = filters?.handles ? new Set(filters.handles) : undefined;
+	const dependencies: Record<string, number> = {};
 
-	for (const type of opts.types) {
+	const definitionTypes = new Set<string>();
+	const metaobjectRefs = new Set<string>(); // handle refs to metaobjects, for includeDependencies
+	const exportDefinition = async (type: string) => {
+		if (definitionTypes.has(type)) return;
+		definitionTypes.add(type);
+		opts.onProgress?.({ phase: 'fetch', message: `Fetching ${type} definition…`, currentType: type, count: 0 });
+		try {
+			const definition = await fetchMetaobjectDefinitionForExport(client, type, definitionTypeById);
+			if (definition) definitions.push(definition);
+			else opts.onProgress?.({ phase: 'fetch', message: `No definition found`, currentType: type, count: 0, error: `Metaobject definition ${type} not found` });
+		} catch (err) {
+			opts.onProgress?.({ phase: 'fetch', message: `Definition error`, currentType: type, count: 0, error: String(err) });
+		}
+	};
+	const exportType = async (type: string, queries: Array<string | undefined>, handles: Set<string> | undefined) => {
+		if (opts.signal?.aborted) throw new CancelledError();
 		let fetchedCount = 0;
 		let backRefCount = 0;
+		await exportDefinition(type);
 		opts.onProgress?.({ phase: 'fetch', message: `Fetching ${type}…`, currentType: type, count: 0 });
-		void await fetchAllMetaobjects(client, type, async (nodesPage) => {
+		const onPage = async (fetched: MetaobjectNode[]) => {
+			// Handle search isn't exact, so keep only the requested handles
+			const nodesPage = handles ? fetched.filter(n => handles.has(n.handle)) : fetched;
 			fetchedCount += nodesPage.length;
 			opts.onProgress?.({ phase: 'fetch', message: `Fetched ${fetchedCount}`, currentType: type, count: fetchedCount, backRefCount: opts.includeBackReferences ? backRefCount : undefined });
 			const paginationPromises: Array<Promise<void>> = [];
+			const pageEntries: ExportEntry[] = [];
 			for (const node of nodesPage) {
 				const key = `${node.type}/${node.handle}`;
 				const entry: ExportEntry = {
@@ -50,6 +163,10 @@ export async function runExport(client: ShopifyGraphQLClient, opts: ExportOption
 					(entry.fields as Record<string, unknown>)[f.key] = value;
 				}
 				if (deps.size > 0) dependsOnMap.set(key, deps);
+				if (opts.includeDependencies) {
+					// Collected from the raw references so it works with retained ids too
+					for (const ref of extractHandleRefsFromFields(node.fields)) if (ref.startsWith(METAOBJECT_REF_PREFIX)) metaobjectRefs.add(ref);
+				}
 				if (opts.includeBackReferences) {
 					try {
 						// use initial edges directly
@@ -73,32 +190,151 @@ export async function runExport(client: ShopifyGraphQLClient, opts: ExportOption
 					}
 				}
 				allEntries.push(entry);
+				pageEntries.push(entry);
 			}
 			// wait for all backref paginations for this page to finish before moving to next page
 			if (paginationPromises.length > 0) await Promise.all(paginationPromises);
-		});
+			if (opts.signal?.aborted) throw new CancelledError();
+			if (pageEntries.length > 0) await opts.onEntries?.(pageEntries, type);
+		};
+		for (const query of queries) {
+			if (opts.engine === 'bulk') {
+				await fetchAllMetaobjectsBulk(client, type, onPage, {
+					includeBackReferences: opts.includeBackReferences,
+					query,
+					onStatus: (op) => opts.onProgress?.({ phase: 'fetch', message: `Bulk operation ${op.status.toLowerCase()}${op.objectCount ? ` • ${op.objectCount} objects` : ''}`, currentType: type, count: fetchedCount }),
+					signal: opts.signal
+				});
+			} else {
+				await fetchAllMetaobjects(client, type, onPage, opts.signal, query);
+			}
+		}
 		// Per-type completion update
 		opts.onProgress?.({ phase: 'fetch', message: `Completed`, currentType: type, count: fetchedCount, backRefCount: opts.includeBackReferences ? backRefCount : undefined, doneType: true });
+	};
+
+	try {
+		for (const type of opts.types) {
+			if (opts.signal?.aborted) throw new CancelledError();
+			await exportDefinition(type);
+		}
+		await opts.onDefinitions?.(definitions.slice());
+		for (const type of opts.types) await exportType(type, searchQueries, handleSet);
+
+		// Follow metaobject references until every referenced entry is in the file (or known to be missing)
+		if (opts.includeDependencies) {
+			const exported = () => new Set(allEntries.map(e => `${METAOBJECT_REF_PREFIX}${e.type}/${e.handle}`));
+			const attempted = new Set<string>();
+			const before = new Map<string, number>();
+			for (const e of allEntries) before.set(e.type, (before.get(e.type) ?? 0) + 1);
+			let pending = Array.from(metaobjectRefs).filter(r => !exported().has(r));
+			while (pending.length > 0) {
+				const byType = new Map<string, string[]>();
+				for (const ref of pending) {
+					attempted.add(ref);
+					const [type, handle] = splitMetaobjectRef(ref);
+					byType.set(type, (byType.get(type) ?? []).concat(handle));
+				}
+				for (const [type, handles] of byType) {
+					opts.onProgress?.({ phase: 'fetch', message: `Fetching ${handles.length} referenced entries…`, currentType: type, count: 0 });
+					await exportType(type, filterSearchQueries({ handles }), new Set(handles));
+				}
+				const have = exported();
+				pending = Array.from(metaobjectRefs).filter(r => !have.has(r) && !attempted.has(r));
+			}
+			const counts = new Map<string, number>();
+			for (const e of allEntries) counts.set(e.type, (counts.get(e.type) ?? 0) + 1);
+			for (const [type, n] of counts) {
+				const added = n - (before.get(type) ?? 0);
+				if (added > 0) dependencies[type] = added;
+			}
+			const pulledIn = Object.entries(dependencies);
+			opts.onProgress?.({ phase: 'fetch', message: pulledIn.length > 0 ? `Pulled in ${pulledIn.reduce((n, [, c]) => n + c, 0)} referenced entries: ${pulledIn.map(([t, c]) => `${t} (${c})`).join(', ')}` : 'No referenced entries outside the export', count: allEntries.length, dependencies });
+			const have = exported();
+			const missing = Array.from(metaobjectRefs).filter(r => !have.has(r)).map(r => splitMetaobjectRef(r).join('/'));
+			if (missing.length > 0) opts.onProgress?.({ phase: 'fetch', message: `Referenced entries not found`, count: allEntries.length, error: `${missing.length} referenced entries not found: ${missing.slice(0, 10).join(', ')}${missing.length > 10 ? ', …' : ''}` });
+		}
+	} catch (err) {
+		if (!(err instanceof CancelledError)) throw err;
+		cancelled = true;
+		opts.onProgress?.({ phase: 'fetch', message: `Cancelled after ${allEntries.length} entries`, count: allEntries.length });
+	}
+
+	// Capture the owner metafield definitions back references write into so the import can recreate them
+	let ownerMetafieldDefinitions: OwnerMetafieldDefinitionExport[] | undefined;
+	const backReferences = allEntries.flatMap(e => e.backReferences ?? []);
+	if (opts.includeBackReferences && backReferences.length > 0 && !cancelled) {
+		opts.onProgress?.({ phase: 'fetch', message: `Fetching owner metafield definitions…`, count: allEntries.length });
+		try {
+			const res = await fetchOwnerMetafieldDefinitionsForExport(client, backReferences, definitionTypeById);
+			ownerMetafieldDefinitions = res.definitions;
+			if (res.missing.length > 0) opts.onProgress?.({ phase: 'fetch', message: `No owner metafield definition`, count: allEntries.length, error: `No metafield definition for ${res.missing.join(', ')}` });
+		} catch (err) {
+			opts.onProgress?.({ phase: 'fetch', message: `Owner metafield definitions error`, count: allEntries.length, error: String(err) });
+		}
 	}
 
 	const ordered = topoSortEntries(allEntries, dependsOnMap);
 
-	const out: ExportFile & { dependsOn?: Record<string, string[]> } = {
+	return {
 		environment: opts.environmentFileName,
+		types: opts.types,
+		exportedAt,
+		incrementalFrom: base?.name,
 		count: ordered.length,
+		partial: cancelled ? true : undefined,
+		filters,
+		dependencies: Object.keys(dependencies).length > 0 ? dependencies : undefined,
+		definitions,
+		ownerMetafieldDefinitions,
 		entries: ordered
 	};
+}
 
-	opts.onProgress?.({ phase: 'write', message: 'Writing output…', total: ordered.length });
+// `label` replaces the joined type names in the file name, e.g. for all-types exports
+export function writeExportFile(opts: Pick<ExportOptions, 'cwd' | 'environmentFileName' | 'types' | 'onProgress'> & { label?: string }, out: ExportFile): string {
+	opts.onProgress?.({ phase: 'write', message: 'Writing output…', total: out.entries.length });
 	const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-	const base = opts.types.join('+');
-	const fileName = `${opts.environmentFileName}-${base}-${timestamp}.json`;
+	const base = opts.label ?? opts.types.join('+');
+	const fileName = `${opts.environmentFileName}-${base}-${timestamp}${out.incrementalFrom ? '-incremental' : out.filters ? '-filtered' : ''}${out.partial ? '-partial' : ''}.json`;
 	const outDir = path.join(opts.cwd, 'outputs');
 	fs.mkdirSync(outDir, { recursive: true });
 	fs.writeFileSync(path.join(outDir, fileName), JSON.stringify(out, null, 2));
 	return path.join(outDir, fileName);
 }
 
+const METAOBJECT_REF_PREFIX = 'handle://shopify/Metaobject/';
+
+// handle://shopify/Metaobject/<type>/<handle> → [type, handle]
+function splitMetaobjectRef(ref: string): [string, string] {
+	const rest = ref.slice(METAOBJECT_REF_PREFIX.length);
+	const slash = rest.indexOf('/');
+	return [rest.slice(0, slash), rest.slice(slash + 1)];
+}
+
+function activeFilters(filters: ExportFilters | undefined): ExportFilters | undefined {
+	const handles = (filters?.handles ?? []).map(h => h.trim()).filter(Boolean);
+	const query = filters?.query?.trim();
+	const updatedSince = filters?.updatedSince?.trim();
+	if (handles.length === 0 && !query && !updatedSince) return undefined;
+	return { handles: handles.length > 0 ? handles : undefined, query: query || undefined, updatedSince: updatedSince || undefined };
+}
+
+// One search query per 50 handles so the query string stays short; undefined means no filter
+function filterSearchQueries(filters: ExportFilters | undefined): Array<string | undefined> {
+	const base: string[] = [];
+	if (filters?.query) base.push(`(${filters.query})`);
+	if (filters?.updatedSince) base.push(`updated_at:>='${filters.updatedSince}'`);
+	const handles = filters?.handles ?? [];
+	if (handles.length === 0) return [base.length > 0 ? base.join(' AND ') : undefined];
+	const queries: string[] = [];
+	for (let i = 0; i < handles.length; i += 50) {
+		const chunk = handles.slice(i, i + 50).map(h => `handle:${JSON.stringify(h)}`).join(' OR ');
+		queries.push(base.concat(`(${chunk})`).join(' AND '));
+	}
+	return queries;
+}
+
 function normaliseFieldForExport(node: MetaobjectNode, field: MetaobjectNode['fields'][number], retainIds: boolean, deps: Set<string>): unknown {
 	// Prefer jsonValue when present for structured fields
 	const baseValue: unknown = field.jsonValue ?? field.value ?? null;
@@ -0,0 +1,94 @@
+import { after, test, type TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { parseHeadlessArgs, runHeadless } from '@utils/headless';
+
+const dirs: string[] = [];
+after(() => { for (const dir of dirs) fs.rmSync(dir, { recursive: true, force: true }); });
+
+function tempDir(files: Record<string, string> = {}): string {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'headless-test-'));
+	dirs.push(dir);
+	for (const [name, text] of Object.entries(files)) fs.writeFileSync(path.join(dir, name), text);
+	return dir;
+}
+
+// Runs the command in `cwd` with stdout and stderr captured
+async function run(t: TestContext, argv: string[], cwd: string): Promise<{ code: number; stdout: string; stderr: string }> {
+	const stdout: string[] = [];
+	const stderr: string[] = [];
+	t.mock.method(process.stdout, 'write', (chunk: string | Uint8Array) => { stdout.push(String(chunk)); return true; });
+	t.mock.method(process.stderr, 'write', (chunk: string | Uint8Array) => { stderr.push(String(chunk)); return true; });
+	const previous = process.cwd();
+	process.chdir(cwd);
+	try {
+		const code = await runHeadless(argv);
+		return { code, stdout: stdout.join(''), stderr: stderr.join('') };
+	} finally {
+		process.chdir(previous);
+		t.mock.restoreAll();
+	}
+}
+
+const exportFile = (fields: Record<string, unknown>) => JSON.stringify({ types: ['recipe'], count: 1, entries: [{ type: 'recipe', handle: 'soup', fields }] });
+
+test('diff of an unparsable export file fails with exit code 1 instead of rejecting', async (t) => {
+	const cwd = tempDir({ 'a.json': exportFile({ title: 'Soup' }), 'broken.json': '{ "entries": [' });
+	const { code, stderr } = await run(t, ['diff', 'a.json', 'broken.json'], cwd);
+	assert.equal(code, 1);
+	assert.match(stderr, /\[error\] .*JSON/);
+});
+
+test('options take their value from the next argument or after =, and repeat where they are lists', () => {
+	const args = parseHeadlessArgs(['export', '--env=.env.test', '--type', 'recipe', '--type=ingredient', '--handle', 'soup', '--no-retain-ids', '--conflict=create-only', '--concurrency', '4', '--ndjson']);
+	assert.equal(args.env, '.env.test');
+	assert.deepEqual(args.types, ['recipe', 'ingredient']);
+	assert.deepEqual(args.handles, ['soup']);
+	assert.equal(args.retainIds, false);
+	assert.equal(args.conflictPolicy, 'create-only');
+	assert.equal(args.concurrency, 4);
+	assert.equal(args.format, 'ndjson');
+	assert.deepEqual(parseHeadlessArgs(['import', 'file.json', '-y', '--help']), { ...parseHeadlessArgs(['import']), command: 'help', positionals: ['file.json'], yes: true });
+});
+
+test('missing and invalid option values are usage errors', () => {
+	assert.throws(() => parseHeadlessArgs(['export', '--env']), /Missing value for --env/);
+	assert.throws(() => parseHeadlessArgs(['export', '--env', '--type', 'recipe']), /Missing value for --env/);
+	assert.throws(() => parseHeadlessArgs(['import', 'f.json', '--conflict', 'sometimes']), /Unknown conflict policy sometimes/);
+	assert.throws(() => parseHeadlessArgs(['import', 'f.json', '--concurrency=0']), /--concurrency must be a positive integer/);
+	assert.throws(() => parseHeadlessArgs(['export', '--format', 'csv']), /Unknown format csv/);
+	assert.throws(() => parseHeadlessArgs(['export', '--verbose']), /Unknown option --verbose/);
+});
+
+test('exit codes: 0 for help, 2 for usage errors before anything runs', async (t) => {
+	const cwd = tempDir({ '.env.empty': '', 'a.json': exportFile({ title: 'Soup' }) });
+	const help = await run(t, ['help'], cwd);
+	assert.equal(help.code, 0);
+	assert.match(help.stdout, /^Usage:/);
+
+	for (const argv of [
+		['export', '--type', 'recipe', '--verbose'],
+		['export', '--type', 'recipe'],
+		['export', '--env', '.env.missing', '--type', 'recipe'],
+		['import', '--env', '.env.empty'],
+		['import', 'missing.json', '--env', '.env.empty'],
+		['diff', 'a.json'],
+		['diff', 'a.json', 'missing.json'],
+	]) {
+		const { code, stdout } = await run(t, argv, cwd);
+		assert.equal(code, 2, argv.join(' '));
+		assert.equal(stdout, '', argv.join(' '));
+	}
+});
+
+test('diff of two export files reports changed fields and exits with 0', async (t) => {
+	const cwd = tempDir({ 'a.json': exportFile({ title: 'Soup' }), 'b.json': exportFile({ title: 'Soup!' }) });
+	const { code, stdout } = await run(t, ['diff', 'a.json', 'b.json', '--format', 'ndjson'], cwd);
+	assert.equal(code, 0);
+	const events = stdout.trim().split('\n').map(line => JSON.parse(line) as { event: string; message: string; path?: string });
+	assert.deepEqual(events.map(e => e.event), ['diff-entry', 'diff-complete']);
+	assert.equal(events[0].message, 'recipe/soup • fields: title');
+	assert.ok(fs.existsSync(events[1].path!));
+});
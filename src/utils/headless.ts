@@ -0,0 +1,429 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import dotenv from 'dotenv';
+import { createShopifyClientFromEnv } from '@utils/shopify/env';
+import { CancelledError } from '@utils/shopify/client';
+import { runExport, runExportAll, type ExportProgress } from '@utils/exporter';
+import { runImport, type ConflictPolicy, type ConflictSkipReason, type ImportProgress, type ImportResumeState } from '@utils/importer';
+import { parseExportFile, type ExportFile } from '@utils/schema';
+import { buildImportResults, findLatestImportResults, readImportResults, recordPrunedEntries, resumeStateFromResults, writeImportResults } from '@utils/importResults';
+import { diffExportFiles, writeDiffReport } from '@utils/diff';
+import { findPruneCandidates, pruneEntries, type PruneProgress } from '@utils/prune';
+import { planImport, writeImportPlan } from '@utils/importPlan';
+import { createImportJournal, findLatestImportJournal, rollbackJournal, type ImportJournal, type RollbackProgress } from '@utils/importJournal';
+
+export type HeadlessFormat = 'text' | 'ndjson';
+
+export type HeadlessArgs = {
+	command: 'export' | 'import' | 'rollback' | 'diff' | 'help';
+	positionals: string[];
+	env?: string;
+	types: string[];
+	allTypes: boolean;
+	prefix?: string; // with --all-types, only types starting with it
+	perType: boolean;
+	bulk: boolean; // export through the Bulk Operations API
+	handles: string[];
+	query?: string;
+	updatedSince?: string;
+	incremental: boolean; // only entries updated since the previous export of the same types
+	includeDependencies: boolean;
+	backrefs: boolean;
+	retainIds: boolean;
+	skipOnError: boolean;
+	conflictPolicy: ConflictPolicy;
+	dryRun: boolean;
+	replaceBackReferences: boolean;
+	createOwnerDefinitions: boolean;
+	prune: boolean;
+	yes: boolean; // confirms destructive steps such as --prune
+	concurrency: number;
+	resume?: string; // results file, or 'latest'
+	format: HeadlessFormat;
+};
+
+const CONFLICT_POLICIES: ConflictPolicy[] = ['always', 'create-only', 'update-only', 'skip-unchanged'];
+
+export const HEADLESS_COMMANDS = ['export', 'import', 'rollback', 'diff', 'help'];
+
+const USAGE = `Usage:
+  npm run dev -- export --env <.env file> --type <type> [--type <type> …] [--handle <handle> …] [--query <search>] [--updated-since <date>] [--incremental] [--include-dependencies] [--backrefs] [--no-retain-ids] [--bulk] [--format text|ndjson]
+  npm run dev -- export --env <.env file> --all-types [--prefix <prefix>] [--per-type] [--backrefs] [--no-retain-ids] [--bulk] [--format text|ndjson]
+  npm run dev -- import <file> --env <.env file> [--skip-on-error] [--conflict always|create-only|update-only|skip-unchanged] [--replace-backrefs] [--create-owner-definitions] [--concurrency <n>] [--resume <results file>|latest] [--prune [--yes]] [--dry-run] [--format text|ndjson]
+  npm run dev -- rollback <journal file>|<export file> --env <.env file> [--format text|ndjson]
+  npm run dev -- diff <old export> <new export> [--type <type> …] [--format text|ndjson]
+
+--handle, --query and --updated-since narrow the export to matching entries; filtered exports are never pruned from.
+--include-dependencies adds every metaobject entry the export references, recursively.
+--incremental exports entries updated since the newest complete export of the same env and types in outputs/ (everything when there is none).
+--prune lists target entries of the file's types that are missing from it; they are only deleted with --yes.
+diff needs no --env: it compares two export files offline and saves the report to outputs/.
+Every import writes an outputs/<env>-import-journal-<ts>.ndjson; rollback given an export file uses its newest journal.
+Ctrl+C stops at the next page or entry boundary, still writing the export or results file (exit code 130).
+Without a command the interactive TUI is started.`;
+
+export function isHeadlessCommand(argv: string[]): boolean {
+	return HEADLESS_COMMANDS.includes(argv[0] ?? '');
+}
+
+export function parseHeadlessArgs(argv: string[]): HeadlessArgs {
+	const args: HeadlessArgs = {
+		command: argv[0] as HeadlessArgs['command'],
+		positionals: [],
+		types: [],
+		allTypes: false,
+		perType: false,
+		bulk: false,
+		handles: [],
+		incremental: false,
+		includeDependencies: false,
+		backrefs: false,
+		retainIds: true,
+		skipOnError: false,
+		conflictPolicy: 'always',
+		dryRun: false,
+		replaceBackReferences: false,
+		createOwnerDefinitions: false,
+		prune: false,
+		yes: false,
+		concurrency: 1,
+		format: 'text'
+	};
+	for (let i = 1; i < argv.length; i += 1) {
+		const arg = argv[i];
+		const [flag, inline] = arg.startsWith('--') && arg.includes('=') ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)] : [arg, undefined];
+		const value = (): string => {
+			const v = inline ?? argv[++i];
+			if (v === undefined || v.startsWith('--')) throw new Error(`Missing value for ${flag}`);
+			return v;
+		};
+		switch (flag) {
+			case '--env': args.env = value(); break;
+			case '--type': args.types.push(value()); break;
+			case '--all-types': args.allTypes = true; break;
+			case '--prefix': args.prefix = value(); break;
+			case '--per-type': args.perType = true; break;
+			case '--bulk': args.bulk = true; break;
+			case '--handle': args.handles.push(value()); break;
+			case '--query': args.query = value(); break;
+			case '--updated-since': args.updatedSince = value(); break;
+			case '--incremental': args.incremental = true; break;
+			case '--include-dependencies': args.includeDependencies = true; break;
+			case '--backrefs': args.backrefs = true; break;
+			case '--retain-ids': args.retainIds = true; break;
+			case '--no-retain-ids': args.retainIds = false; break;
+			case '--skip-on-error': args.skipOnError = true; break;
+			case '--dry-run': args.dryRun = true; break;
+			case '--conflict': {
+				const policy = value();
+				if (!CONFLICT_POLICIES.includes(policy as ConflictPolicy)) throw new Error(`Unknown conflict policy ${policy}`);
+				args.conflictPolicy = policy as ConflictPolicy;
+				break;
+			}
+			case '--replace-backrefs': args.replaceBackReferences = true; break;
+			case '--create-owner-definitions': args.createOwnerDefinitions = true; break;
+			case '--resume': args.resume = value(); break;
+			case '--prune': args.prune = true; break;
+			case '--yes':
+			case '-y': args.yes = true; break;
+			case '--concurrency': {
+				const n = Number(value());
+				if (!Number.isInteger(n) || n < 1) throw new Error(`--concurrency must be a positive integer`);
+				args.concurrency = n;
+				break;
+			}
+			case '--ndjson': args.format = 'ndjson'; break;
+			case '--format': {
+				const f = value();
+				if (f !== 'text' && f !== 'ndjson') throw new Error(`Unknown format ${f}`);
+				args.format = f;
+				break;
+			}
+			case '--help':
+			case '-h': args.command = 'help'; break;
+			default:
+				if (flag.startsWith('-')) throw new Error(`Unknown option ${flag}`);
+				args.positionals.push(flag);
+		}
+	}
+	return args;
+}
+
+// Returns the process exit code: 0 on success, 1 when anything failed, 2 on usage errors, 130 when cancelled
+export async function runHeadless(argv: string[]): Promise<number> {
+	let args: HeadlessArgs;
+	try {
+		args = parseHeadlessArgs(argv);
+	} catch (err) {
+		process.stderr.write(`${err instanceof Error ? err.message : String(err)}\n${USAGE}\n`);
+		return 2;
+	}
+	if (args.command === 'help') {
+		process.stdout.write(`${USAGE}\n`);
+		return 0;
+	}
+	if (args.command === 'diff') {
+		// Offline, so none of the setup below; unreadable or malformed files still end in exit code 1
+		const emit = createEmitter(args.format);
+		try {
+			return headlessDiff(args, emit);
+		} catch (err) {
+			return reportFailure(err, emit);
+		}
+	}
+	if (!args.env) {
+		process.stderr.write(`--env is required\n${USAGE}\n`);
+		return 2;
+	}
+	const envPath = path.resolve(process.cwd(), args.env);
+	if (!fs.existsSync(envPath)) {
+		process.stderr.write(`Environment file not found: ${envPath}\n`);
+		return 2;
+	}
+	dotenv.config({ path: envPath, override: true });
+
+	const emit = createEmitter(args.format);
+	const controller = new AbortController();
+	const onSigint = () => {
+		emit({ event: 'cancel', message: 'Cancelling at the next boundary…' });
+		controller.abort();
+	};
+	process.once('SIGINT', onSigint);
+	try {
+		if (args.command === 'export') return await headlessExport(args, path.basename(envPath), emit, controller.signal);
+		if (args.command === 'rollback') return await headlessRollback(args, emit, controller.signal);
+		return await headlessImport(args, path.basename(envPath), emit, controller.signal);
+	} catch (err) {
+		return reportFailure(err, emit);
+	} finally {
+		process.removeListener('SIGINT', onSigint);
+	}
+}
+
+function reportFailure(err: unknown, emit: (e: HeadlessEvent) => void): number {
+	if (err instanceof CancelledError) {
+		emit({ event: 'cancelled', message: err.message });
+		return 130;
+	}
+	emit({ event: 'error', message: err instanceof Error ? err.message : String(err) });
+	return 1;
+}
+
+type HeadlessEvent = { event: string; message?: string; [key: string]: unknown };
+
+function createEmitter(format: HeadlessFormat): (e: HeadlessEvent) => void {
+	return (e) => {
+		if (format === 'ndjson') {
+			process.stdout.write(`${JSON.stringify(e)}\n`);
+			return;
+		}
+		const stream = e.event === 'error' || e.error ? process.stderr : process.stdout;
+		stream.write(`${formatTextEvent(e)}\n`);
+	};
+}
+
+function formatTextEvent(e: HeadlessEvent): string {
+	const parts: string[] = [`[${e.phase ?? e.event}]`];
+	if (e.event === 'import-progress' && typeof e.index === 'number' && typeof e.total === 'number') parts.push(`${Math.min(e.index + 1, e.total)}/${e.total}`);
+	if (typeof e.currentType === 'string') parts.push(e.currentType);
+	if (e.message) parts.push(e.message);
+	if (typeof e.count === 'number') parts.push(`(${e.count})`);
+	if (typeof e.backRefCount === 'number') parts.push(`• backrefs ${e.backRefCount}`);
+	if (e.error) parts.push(`— ${String(e.error)}`);
+	return parts.join(' ');
+}
+
+async function headlessExport(args: HeadlessArgs, envName: string, emit: (e: HeadlessEvent) => void, signal: AbortSignal): Promise<number> {
+	if (args.types.length === 0 && !args.allTypes) {
+		process.stderr.write(`At least one --type (or --all-types) is required\n${USAGE}\n`);
+		return 2;
+	}
+	if (args.types.length > 0 && args.allTypes) {
+		process.stderr.write(`--type and --all-types can't be combined\n${USAGE}\n`);
+		return 2;
+	}
+	let failed = false;
+	const client = createShopifyClientFromEnv();
+	const opts = {
+		cwd: process.cwd(),
+		environmentFileName: envName,
+		retainIds: args.retainIds,
+		includeBackReferences: args.backrefs,
+		engine: args.bulk ? 'bulk' as const : 'pages' as const,
+		filters: { handles: args.handles, query: args.query, updatedSince: args.updatedSince },
+		incremental: args.incremental,
+		includeDependencies: args.includeDependencies,
+		onProgress: (p: ExportProgress) => {
+			if (p.error) failed = true;
+			emit({ event: 'export-progress', ...p });
+		},
+		signal
+	};
+	const paths = args.allTypes
+		? await runExportAll(client, { ...opts, prefix: args.prefix, perType: args.perType })
+		: [await runExport(client, { ...opts, types: args.types })];
+	for (const [i, outPath] of paths.entries()) {
+		// Only the last file can be cut short
+		const partial = signal.aborted && i === paths.length - 1;
+		emit({ event: 'export-complete', message: `Wrote ${partial ? 'partial export ' : ''}${outPath}`, path: outPath, partial });
+	}
+	if (signal.aborted) return 130;
+	return failed ? 1 : 0;
+}
+
+async function headlessImport(args: HeadlessArgs, envName: string, emit: (e: HeadlessEvent) => void, signal: AbortSignal): Promise<number> {
+	const fileArg = args.positionals[0];
+	if (!fileArg) {
+		process.stderr.write(`Missing import file\n${USAGE}\n`);
+		return 2;
+	}
+	const candidates = [path.resolve(process.cwd(), fileArg), path.join(process.cwd(), 'outputs', fileArg)];
+	const filePath = candidates.find(p => fs.existsSync(p));
+	if (!filePath) {
+		process.stderr.write(`Import file not found: ${fileArg}\n`);
+		return 2;
+	}
+	const { file } = parseExportFile(fs.readFileSync(filePath, 'utf8'));
+	if (args.dryRun) return await headlessPlan(args, file, emit);
+	let resume: ImportResumeState | undefined;
+	if (args.resume) {
+		const prior = args.resume === 'latest' ? findLatestImportResults(process.cwd(), file.entries) : { path: args.resume, summary: readImportResults(path.resolve(process.cwd(), args.resume)) };
+		if (!prior) {
+			process.stderr.write(`No import results found for ${fileArg}\n`);
+			return 2;
+		}
+		resume = resumeStateFromResults(file.entries, prior.summary);
+		emit({ event: 'resume', message: `Resuming from ${prior.path}: ${resume.completed.size} done, ${resume.backReferencesOnly.size} back references only`, path: prior.path });
+	}
+	const startedAt = new Date();
+	let completionStatus: NonNullable<ImportProgress['entryCompletionStatus']> = new Map();
+	const results = new Map<number, { status: 'success' | 'skipped' | 'failed'; error?: string }>();
+	const conflictSkips = new Map<number, ConflictSkipReason>();
+	let runError: unknown;
+	let sawError = false;
+
+	const journal = createImportJournal(process.cwd(), { environment: file.environment ?? envName, source: path.basename(filePath) });
+	emit({ event: 'journal', message: `Journal ${journal.path}`, path: journal.path });
+	const client = createShopifyClientFromEnv();
+	try {
+		await runImport(client, file, {
+			skipOnError: args.skipOnError,
+			conflictPolicy: args.conflictPolicy,
+			backReferenceMode: args.replaceBackReferences ? 'replace' : 'merge',
+			createOwnerDefinitions: args.createOwnerDefinitions,
+			concurrency: args.concurrency,
+			resume,
+			signal,
+			journal,
+			onProgress: (p: ImportProgress) => {
+				if (p.entryCompletionStatus) completionStatus = p.entryCompletionStatus;
+				if (p.error) sawError = true;
+				if (p.conflictSkip) conflictSkips.set(p.index, p.conflictSkip);
+				if (p.error && (p.phase === 'metaobjects' || (p.phase === 'backreferences' && p.current))) results.set(p.index, { status: p.message?.startsWith('Skipped') ? 'skipped' : 'failed', error: p.error });
+				// Entries and the status map are too large to stream on every event
+				emit({ event: 'import-progress', ...p, current: undefined, entryCompletionStatus: undefined, entry: p.current ? `${p.current.type}/${p.current.handle}` : undefined });
+			}
+		});
+	} catch (err) {
+		runError = err;
+	}
+
+	const summary = buildImportResults({ environment: file.environment ?? envName, startedAt, finishedAt: new Date(), entries: file.entries, completionStatus, results, conflictPolicy: args.conflictPolicy, conflictSkips });
+	const resultsPath = writeImportResults(process.cwd(), summary);
+	// Entries the conflict policy left alone are reported separately, not as failures
+	const failedCount = summary.results.filter(r => r.status === 'failed' || (r.status === 'skipped' && !r.conflictSkip)).length;
+	const successCount = summary.results.filter(r => r.status === 'success').length;
+	const skipped = conflictSkips.size > 0 ? ` (${conflictSkips.size} left as-is by ${args.conflictPolicy})` : '';
+	emit({ event: 'import-complete', message: `${successCount} succeeded${skipped}, ${failedCount} failed of ${summary.count} • results ${resultsPath}`, succeeded: successCount, failed: failedCount, skipped: summary.skipped, total: summary.count, path: resultsPath });
+	if (runError) throw runError;
+	const pruneFailed = args.prune ? await headlessPrune(args, file, emit, signal, { resultsPath, journal }) : false;
+	return failedCount > 0 || sawError || pruneFailed ? 1 : 0;
+}
+
+// Returns true when any deletion failed
+async function headlessPrune(args: HeadlessArgs, file: ExportFile, emit: (e: HeadlessEvent) => void, signal: AbortSignal, run: { resultsPath: string; journal: ImportJournal }): Promise<boolean> {
+	const client = createShopifyClientFromEnv();
+	const onProgress = (p: PruneProgress) => emit({ event: 'prune-progress', phase: 'prune', ...p });
+	const candidates = await findPruneCandidates(client, file, { onProgress });
+	for (const c of candidates) emit({ event: 'prune-candidate', phase: 'prune', message: `${c.type}/${c.handle} is not in the file`, type: c.type, handle: c.handle, id: c.id });
+	if (candidates.length === 0) return false;
+	if (!args.yes) {
+		emit({ event: 'prune-complete', phase: 'prune', message: `${candidates.length} entries would be deleted; rerun with --yes to delete them`, count: candidates.length });
+		return false;
+	}
+	const pruned = await pruneEntries(client, candidates, { onProgress, signal, journal: run.journal });
+	recordPrunedEntries(run.resultsPath, pruned);
+	const failed = pruned.filter(r => r.status === 'failed').length;
+	emit({ event: 'prune-complete', phase: 'prune', message: `${pruned.length - failed} deleted, ${failed} failed of ${candidates.length} • results ${run.resultsPath}`, deleted: pruned.length - failed, failed });
+	if (signal.aborted) throw new CancelledError();
+	return failed > 0;
+}
+
+async function headlessRollback(args: HeadlessArgs, emit: (e: HeadlessEvent) => void, signal: AbortSignal): Promise<number> {
+	const target = args.positionals[0];
+	if (!target) {
+		process.stderr.write(`Missing journal or export file\n${USAGE}\n`);
+		return 2;
+	}
+	const journalPath = target.endsWith('.ndjson')
+		? [path.resolve(process.cwd(), target), path.join(process.cwd(), 'outputs', target)].find(p => fs.existsSync(p))
+		: findLatestImportJournal(process.cwd(), path.basename(target));
+	if (!journalPath) {
+		process.stderr.write(`No import journal found for ${target}\n`);
+		return 2;
+	}
+	emit({ event: 'rollback', message: `Rolling back ${journalPath}`, path: journalPath });
+	const client = createShopifyClientFromEnv();
+	const result = await rollbackJournal(client, journalPath, {
+		signal,
+		onProgress: (p: RollbackProgress) => emit({ event: 'rollback-progress', ...p })
+	});
+	emit({ event: 'rollback-complete', message: `${result.deleted} deleted, ${result.restored} restored, ${result.failed} failed`, ...result });
+	return result.failed > 0 ? 1 : 0;
+}
+
+function headlessDiff(args: HeadlessArgs, emit: (e: HeadlessEvent) => void): number {
+	if (args.positionals.length !== 2) {
+		process.stderr.write(`diff needs two export files\n${USAGE}\n`);
+		return 2;
+	}
+	const files = args.positionals.map(arg => [path.resolve(process.cwd(), arg), path.join(process.cwd(), 'outputs', arg)].find(p => fs.existsSync(p)));
+	const missing = args.positionals.filter((_, i) => !files[i]);
+	if (missing.length > 0) {
+		process.stderr.write(`Export file not found: ${missing.join(', ')}\n`);
+		return 2;
+	}
+	const [left, right] = files.map(f => parseExportFile(fs.readFileSync(f!, 'utf8')).file);
+	const report = diffExportFiles(left, right, { left: path.basename(files[0]!), right: path.basename(files[1]!), types: args.types });
+	for (const e of report.entries) {
+		const changed = e.fields.map(f => f.key).join(', ');
+		const backRefs = e.backReferences ? ` • back references +${e.backReferences.added.length}/-${e.backReferences.removed.length}` : '';
+		emit({ event: 'diff-entry', phase: e.status, message: `${e.type}/${e.handle}${e.status === 'changed' && changed ? ` • fields: ${changed}` : ''}${backRefs}`, entry: e });
+	}
+	const reportPath = writeDiffReport(process.cwd(), report);
+	const s = report.summary;
+	emit({ event: 'diff-complete', message: `${s.added} added, ${s.removed} removed, ${s.changed} changed, ${s.unchanged} unchanged • report ${reportPath}`, summary: s, path: reportPath });
+	return 0;
+}
+
+async function headlessPlan(args: HeadlessArgs, file: ExportFile, emit: (e: HeadlessEvent) => void): Promise<number> {
+	const client = createShopifyClientFromEnv();
+	const plan = await planImport(client, file, {
+		conflictPolicy: args.conflictPolicy,
+		onProgress: (p: ImportProgress) => emit({ event: 'plan-progress', ...p, current: undefined, entryCompletionStatus: undefined })
+	});
+	for (const d of plan.ownerDefinitions) {
+		if (d.action === 'create') emit({ event: 'plan-owner-definition', phase: 'create', message: `${d.ownerType} metafield definition ${d.namespace}.${d.key}${args.createOwnerDefinitions ? '' : ' (needs --create-owner-definitions)'}`, definition: d });
+	}
+	for (const e of plan.entries) {
+		if ((e.action === 'unchanged' || e.skipReason === 'unchanged') && e.unresolvedRefs.length === 0 && e.unresolvedBackReferenceOwners.length === 0) continue;
+		const changed = e.changes.map(c => c.key).join(', ');
+		const unresolved = e.unresolvedRefs.concat(e.unresolvedBackReferenceOwners);
+		emit({ event: 'plan-entry', phase: e.action, message: `${e.type}/${e.handle}${changed && e.action === 'update' ? ` • fields: ${changed}` : ''}${e.skipReason ? ` • ${e.skipReason}` : ''}${unresolved.length > 0 ? ` • unresolved: ${unresolved.join(', ')}` : ''}`, entry: e });
+	}
+	const planPath = writeImportPlan(process.cwd(), plan);
+	const s = plan.summary;
+	const skipped = s.skip > 0 ? `, ${s.skip} left as-is by ${args.conflictPolicy}` : '';
+	emit({ event: 'plan-complete', message: `${s.create} create, ${s.update} update, ${s.unchanged} unchanged${skipped} • ${s.unresolvedRefs} unresolved refs, ${s.unresolvedBackReferenceOwners} unresolved owners, ${s.resolvedByImport} created by this import • plan ${planPath}`, summary: s, path: planPath });
+	return 0;
+}
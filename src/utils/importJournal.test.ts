@@ -0,0 +1,93 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createImportJournal, rollbackJournal, type JournalRecord } from '@utils/importJournal';
+import { FakeShopifyClient } from '@utils/shopify/fakeClient';
+
+const dirs: string[] = [];
+after(() => { for (const dir of dirs) fs.rmSync(dir, { recursive: true, force: true }); });
+
+function journalWith(records: JournalRecord[]): string {
+	const cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'journal-test-'));
+	dirs.push(cwd);
+	const journal = createImportJournal(cwd, { environment: '.env.test' });
+	journal.append(records);
+	return journal.path;
+}
+
+// A target store holding the given metaobjects by type/handle; every write is logged in order.
+// Metafield writes on the rejected owners fail
+function storeWith(ids: Record<string, string>, rejectedOwners: string[] = []): { client: FakeShopifyClient; log: string[] } {
+	const log: string[] = [];
+	const client = new FakeShopifyClient({
+		MetaobjectFieldValuesByHandle: ({ variables }) => {
+			const { type, handle } = variables.handle as { type: string; handle: string };
+			const id = ids[`${type}/${handle}`];
+			return { data: { metaobjectByHandle: id ? { id, handle, fields: [] } : null } };
+		},
+		DeleteMetaobject: ({ variables }) => {
+			log.push(`delete ${String(variables.id)}`);
+			return { data: { metaobjectDelete: { deletedId: variables.id, userErrors: [] } } };
+		},
+		UpsertMetaobject: ({ variables }) => {
+			const { handle } = variables.handle as { handle: string };
+			log.push(`restore ${handle} ${JSON.stringify((variables.input as { fields: unknown }).fields)}`);
+			return { data: { metaobjectUpsert: { metaobject: { id: 'gid://shopify/Metaobject/2' }, userErrors: [] } } };
+		},
+		MetafieldsSet: ({ variables }) => {
+			const [m] = variables.metafields as Array<{ ownerId: string; value: string }>;
+			log.push(`set ${m.ownerId} ${m.value}`);
+			return { data: { metafieldsSet: { metafields: [], userErrors: [] } } };
+		},
+		MetafieldsDelete: ({ variables }) => {
+			const [m] = variables.metafields as Array<{ ownerId: string }>;
+			if (rejectedOwners.includes(m.ownerId)) return { data: { metafieldsDelete: { deletedMetafields: [], userErrors: [{ message: 'Owner not found' }] } } };
+			log.push(`unset ${m.ownerId}`);
+			return { data: { metafieldsDelete: { deletedMetafields: [], userErrors: [] } } };
+		},
+	});
+	return { client, log };
+}
+
+test('records are undone newest-first from the state each object had before its first write', async () => {
+	const file = journalWith([
+		{ kind: 'metaobject', type: 'recipe', handle: 'soup', previous: null },
+		{ kind: 'metaobject', type: 'recipe', handle: 'stew', previous: { id: 'gid://shopify/Metaobject/2', fields: [{ key: 'title', value: 'Stew' }, { key: 'note', value: null }] } },
+		{ kind: 'metafield', ownerId: 'gid://shopify/Product/1', namespace: 'custom', key: 'recipe', previous: null },
+		{ kind: 'metafield', ownerId: 'gid://shopify/Product/2', namespace: 'custom', key: 'recipe', previous: { type: 'list.metaobject_reference', value: '["gid://shopify/Metaobject/9"]' } },
+		// Later records of the same objects describe the import's own writes and are ignored
+		{ kind: 'metaobject', type: 'recipe', handle: 'stew', previous: { id: 'gid://shopify/Metaobject/2', fields: [{ key: 'title', value: 'Imported stew' }] } },
+		{ kind: 'metafield', ownerId: 'gid://shopify/Product/2', namespace: 'custom', key: 'recipe', previous: { type: 'list.metaobject_reference', value: '["gid://shopify/Metaobject/2"]' } },
+	]);
+	const { client, log } = storeWith({ 'recipe/soup': 'gid://shopify/Metaobject/1' });
+	const result = await rollbackJournal(client, file);
+
+	assert.deepEqual(log, [
+		'set gid://shopify/Product/2 ["gid://shopify/Metaobject/9"]',
+		'unset gid://shopify/Product/1',
+		'restore stew [{"key":"title","value":"Stew"},{"key":"note","value":""}]',
+		'delete gid://shopify/Metaobject/1',
+	]);
+	assert.deepEqual(result, { deleted: 2, restored: 2, failed: 0, errors: [] });
+});
+
+test('created entries that are already gone are skipped, so a rollback can run again', async () => {
+	const file = journalWith([{ kind: 'metaobject', type: 'recipe', handle: 'soup', previous: null }]);
+	const { client, log } = storeWith({});
+	assert.deepEqual(await rollbackJournal(client, file), { deleted: 0, restored: 0, failed: 0, errors: [] });
+	assert.deepEqual(log, []);
+});
+
+test('a write the store rejects is counted as failed and the rest still roll back', async () => {
+	const file = journalWith([
+		{ kind: 'metaobject', type: 'recipe', handle: 'soup', previous: null },
+		{ kind: 'metafield', ownerId: 'gid://shopify/Product/1', namespace: 'custom', key: 'recipe', previous: null },
+	]);
+	const { client, log } = storeWith({ 'recipe/soup': 'gid://shopify/Metaobject/1' }, ['gid://shopify/Product/1']);
+	const result = await rollbackJournal(client, file);
+
+	assert.deepEqual(result, { deleted: 1, restored: 0, failed: 1, errors: ['gid://shopify/Product/1 custom.recipe: Owner not found'] });
+	assert.deepEqual(log, ['delete gid://shopify/Metaobject/1']);
+});
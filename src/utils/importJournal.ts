@@ -0,0 +1,140 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { CancelledError, ShopifyGraphQLClient } from '@utils/shopify/client';
+import { deleteMetaobject, fetchMetaobjectFieldValuesByHandle, upsertMetaobject, type MetaobjectFieldValues } from '@utils/shopify/metaobjects';
+import { metafieldsDeleteBatch, metafieldsSetBatch, type OwnerMetafieldValue } from '@utils/shopify/metafields';
+
+export type JournalHeader = { kind: 'header'; environment: string; source?: string; startedAt: string };
+
+// previous is null when the object did not exist before the import touched it
+export type MetaobjectJournalRecord = { kind: 'metaobject'; type: string; handle: string; previous: { id: string; fields: Array<{ key: string; value: string | null }> } | null };
+export type MetafieldJournalRecord = { kind: 'metafield'; ownerId: string; namespace: string; key: string; previous: OwnerMetafieldValue | null };
+export type JournalRecord = MetaobjectJournalRecord | MetafieldJournalRecord;
+
+export type ImportJournal = {
+	path: string;
+	append: (records: JournalRecord[]) => void;
+	// Records the export file the import read once it is written (sync writes it after importing)
+	setSource: (source: string) => void;
+};
+
+export type RollbackProgress = { total: number; processed: number; message: string; error?: string };
+
+export type RollbackResult = { deleted: number; restored: number; failed: number; errors: string[] };
+
+// NDJSON in outputs/, appended synchronously so each record is on disk before the write it describes is sent
+export function createImportJournal(cwd: string, opts: { environment: string; source?: string }): ImportJournal {
+	const dir = path.join(cwd, 'outputs');
+	fs.mkdirSync(dir, { recursive: true });
+	const header: JournalHeader = { kind: 'header', environment: opts.environment, source: opts.source, startedAt: new Date().toISOString() };
+	const filePath = path.join(dir, `${opts.environment}-import-journal-${header.startedAt.replace(/[:.]/g, '-')}.ndjson`);
+	fs.writeFileSync(filePath, `${JSON.stringify(header)}\n`, 'utf8');
+	return {
+		path: filePath,
+		append: (records) => {
+			if (records.length === 0) return;
+			fs.appendFileSync(filePath, records.map(r => `${JSON.stringify(r)}\n`).join(''), 'utf8');
+		},
+		setSource: (source) => {
+			const text = fs.readFileSync(filePath, 'utf8');
+			fs.writeFileSync(filePath, `${JSON.stringify({ ...header, source })}\n${text.slice(text.indexOf('\n') + 1)}`, 'utf8');
+		}
+	};
+}
+
+export function metaobjectJournalRecord(type: string, handle: string, current: MetaobjectFieldValues | null): MetaobjectJournalRecord {
+	return {
+		kind: 'metaobject',
+		type,
+		handle,
+		previous: current ? { id: current.id, fields: current.fields.map(f => ({ key: f.key, value: f.value ?? null })) } : null
+	};
+}
+
+export function readImportJournal(filePath: string): { header: JournalHeader; records: JournalRecord[] } {
+	const lines = fs.readFileSync(filePath, 'utf8').split('\n').filter(l => l.trim());
+	const parsed: unknown[] = [];
+	for (const line of lines) {
+		try {
+			parsed.push(JSON.parse(line));
+		} catch {
+			// a crash can leave the last line truncated
+		}
+	}
+	const header = parsed[0] as JournalHeader | undefined;
+	if (!header || header.kind !== 'header') throw new Error(`${path.basename(filePath)} is not an import journal`);
+	const records = parsed.slice(1).filter((r): r is JournalRecord => {
+		const kind = (r as { kind?: string } | null)?.kind;
+		return kind === 'metaobject' || kind === 'metafield';
+	});
+	return { header, records };
+}
+
+// Newest journal in outputs/ written while importing the given export file
+export function findLatestImportJournal(cwd: string, source: string): string | undefined {
+	const dir = path.join(cwd, 'outputs');
+	if (!fs.existsSync(dir)) return undefined;
+	const journals: Array<{ path: string; startedAt: string }> = [];
+	for (const name of fs.readdirSync(dir)) {
+		if (!name.includes('-import-journal-') || !name.endsWith('.ndjson')) continue;
+		try {
+			const { header } = readImportJournal(path.join(dir, name));
+			if (header.source === source) journals.push({ path: path.join(dir, name), startedAt: header.startedAt });
+		} catch {
+			// not a journal
+		}
+	}
+	return journals.sort((a, b) => b.startedAt.localeCompare(a.startedAt))[0]?.path;
+}
+
+// Replays the journal newest-first: owner metafields are restored before the metaobjects they point at are deleted.
+// Only the first record per object counts, since that is its state before the import.
+export async function rollbackJournal(client: ShopifyGraphQLClient, filePath: string, opts: { onProgress?: (p: RollbackProgress) => void; signal?: AbortSignal } = {}): Promise<RollbackResult> {
+	const { records } = readImportJournal(filePath);
+	const earliest = new Map<string, JournalRecord>();
+	for (const r of records) {
+		const key = r.kind === 'metaobject' ? `metaobject:${r.type}/${r.handle}` : `metafield:${r.ownerId}:${r.namespace}:${r.key}`;
+		if (!earliest.has(key)) earliest.set(key, r);
+	}
+	const ordered = Array.from(earliest.values()).reverse();
+	const result: RollbackResult = { deleted: 0, restored: 0, failed: 0, errors: [] };
+	const fail = (label: string, message: string) => {
+		result.failed += 1;
+		result.errors.push(`${label}: ${message}`);
+		opts.onProgress?.({ total: ordered.length, processed: result.deleted + result.restored + result.failed, message: `Failed ${label}`, error: message });
+	};
+
+	for (const r of ordered) {
+		// Stopping part-way is safe: running the same journal again skips what is already undone
+		if (opts.signal?.aborted) throw new CancelledError();
+		const label = r.kind === 'metaobject' ? `${r.type}/${r.handle}` : `${r.ownerId} ${r.namespace}.${r.key}`;
+		opts.onProgress?.({ total: ordered.length, processed: result.deleted + result.restored + result.failed, message: `Rolling back ${label}…` });
+		try {
+			if (r.kind === 'metaobject' && !r.previous) {
+				const current = await fetchMetaobjectFieldValuesByHandle(client, r.type, r.handle);
+				if (!current) continue;
+				const res = await deleteMetaobject(client, current.id);
+				if (res.userErrors.length > 0) { fail(label, res.userErrors.map(u => u.message).join('; ')); continue; }
+				result.deleted += 1;
+			} else if (r.kind === 'metaobject' && r.previous) {
+				// Fields that were empty before are cleared with an empty value
+				const fields = r.previous.fields.map(f => ({ key: f.key, value: f.value ?? '' }));
+				const res = await upsertMetaobject(client, { handle: { type: r.type, handle: r.handle }, metaobject: { fields } });
+				if (res.userErrors && res.userErrors.length > 0) { fail(label, res.userErrors.map(u => u.message).join('; ')); continue; }
+				result.restored += 1;
+			} else if (r.kind === 'metafield' && !r.previous) {
+				const res = await metafieldsDeleteBatch(client, [{ ownerId: r.ownerId, namespace: r.namespace, key: r.key }]);
+				if (res.userErrors.length > 0) { fail(label, res.userErrors.map(u => u.message).join('; ')); continue; }
+				result.deleted += 1;
+			} else if (r.kind === 'metafield' && r.previous) {
+				const res = await metafieldsSetBatch(client, [{ ownerId: r.ownerId, namespace: r.namespace, key: r.key, type: r.previous.type, value: r.previous.value }]);
+				if (res.userErrors.length > 0) { fail(label, res.userErrors.map(u => u.message).join('; ')); continue; }
+				result.restored += 1;
+			}
+		} catch (err) {
+			fail(label, err instanceof Error ? err.message : String(err));
+		}
+	}
+	opts.onProgress?.({ total: ordered.length, processed: ordered.length, message: `Rollback finished: ${result.deleted} deleted, ${result.restored} restored, ${result.failed} failed` });
+	return result;
+}
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ExportFile } from '@utils/schema';
+import { planImport } from '@utils/importPlan';
+import { FakeShopifyClient } from '@utils/shopify/fakeClient';
+
+// A target store holding these recipe handles, each with a matching title
+function storeWith(handles: string[]): FakeShopifyClient {
+	const node = (handle: string) => ({ id: `gid://shopify/Metaobject/${handle}`, handle, type: 'recipe' });
+	return new FakeShopifyClient({
+		MetaobjectCount: () => ({ data: { metaobjectDefinitionByType: { metaobjectsCount: handles.length } } }),
+		MetaobjectsByHandle: ({ variables }) => {
+			const data: Record<string, unknown> = {};
+			for (const [key, handle] of Object.entries(variables)) if (key !== 'type') data[`m${key.slice(1)}`] = handles.includes(handle as string) ? node(handle as string) : null;
+			return { data };
+		},
+		MetaobjectsByType: () => ({ data: { metaobjects: { pageInfo: { hasNextPage: false }, nodes: handles.map(node) } } }),
+		MetaobjectFieldValues: () => ({
+			data: { metaobjects: { pageInfo: { hasNextPage: false }, nodes: handles.map(handle => ({ ...node(handle), fields: [{ key: 'title', value: handle }] })) } },
+		}),
+	});
+}
+
+const ref = (handle: string) => `handle://shopify/Metaobject/recipe/${handle}`;
+
+const file: ExportFile = {
+	environment: 'test',
+	count: 3,
+	entries: [
+		{ type: 'recipe', handle: 'soup', fields: { title: 'soup' } },
+		{ type: 'recipe', handle: 'stew', fields: { title: 'Stew', related: [ref('soup'), ref('pie'), ref('gone')] } },
+		{ type: 'recipe', handle: 'pie', fields: { title: 'pie', related: [ref('stew')] } },
+	],
+};
+
+test('refs to entries the same file creates are resolved by the import, not dropped', async () => {
+	const plan = await planImport(storeWith(['soup', 'stew']), file);
+	const stew = plan.entries[1];
+
+	assert.equal(stew.action, 'update');
+	assert.deepEqual(stew.unresolvedRefs, [ref('gone')]);
+	assert.deepEqual(stew.resolvedByImport, [ref('pie')]);
+	assert.deepEqual(JSON.parse(stew.changes.find(c => c.key === 'related')!.to), ['gid://shopify/Metaobject/soup', ref('pie')]);
+	assert.equal(plan.entries[2].action, 'create');
+	assert.deepEqual(plan.entries[2].unresolvedRefs, []);
+	assert.deepEqual(plan.summary, { create: 1, update: 1, unchanged: 1, skip: 0, unresolvedRefs: 1, unresolvedBackReferenceOwners: 0, resolvedByImport: 1 });
+});
+
+test('entries the conflict policy leaves alone are planned as skips', async () => {
+	const actions = async (conflictPolicy: 'create-only' | 'update-only' | 'skip-unchanged') => {
+		const plan = await planImport(storeWith(['soup', 'stew']), file, { conflictPolicy });
+		return plan.entries.map(e => `${e.handle} ${e.action}${e.skipReason ? ` ${e.skipReason}` : ''}`);
+	};
+
+	assert.deepEqual(await actions('create-only'), ['soup skip exists', 'stew skip exists', 'pie create']);
+	assert.deepEqual(await actions('skip-unchanged'), ['soup skip unchanged', 'stew update', 'pie create']);
+	// Nothing is created, so pie no longer resolves stew's ref
+	const plan = await planImport(storeWith(['soup', 'stew']), file, { conflictPolicy: 'update-only' });
+	assert.deepEqual(plan.entries.map(e => e.action), ['unchanged', 'update', 'skip']);
+	assert.deepEqual(plan.entries[1].unresolvedRefs, [ref('pie'), ref('gone')]);
+	assert.equal(plan.summary.resolvedByImport, 0);
+});
@@ -0,0 +1,224 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { ShopifyGraphQLClient } from '@utils/shopify/client';
+import { BulkHandleResolver, type HandleRef } from '@utils/shopify/resolve';
+import { fetchMetaobjectFieldValues } from '@utils/shopify/metaobjects';
+import { fetchDefinitionNode } from '@utils/shopify/definitions';
+import { fetchOwnerMetafieldDefinitions, metafieldOwnerTypeForResource } from '@utils/shopify/metafields';
+import type { ExportFile, ExportEntry } from '@utils/schema';
+import { normaliseAppNamespace } from '@utils/schema';
+import { collectAllHandleReferences, sameFieldValue, serialiseField, type ConflictPolicy, type ConflictSkipReason, type ImportProgress } from '@utils/importer';
+
+export type PlannedFieldChange = { key: string; from: string | null; to: string };
+
+export type PlannedEntry = {
+	index: number;
+	type: string;
+	handle: string;
+	action: 'create' | 'update' | 'unchanged' | 'skip';
+	// Why the conflict policy leaves the entry alone; set when action is 'skip'
+	skipReason?: ConflictSkipReason;
+	changes: PlannedFieldChange[];
+	unresolvedRefs: string[];
+	unresolvedBackReferenceOwners: string[];
+	// Refs missing from the target to entries this import creates from the same file
+	resolvedByImport: string[];
+	// MediaImage refs are uploaded via fileCreate on import, so they are never resolved in a dry run
+	mediaUploads: string[];
+};
+
+export type ImportPlan = {
+	environment?: string;
+	createdAt: string;
+	definitions: Array<{ type: string; action: 'create' | 'update' }>;
+	// Owner metafield definitions back references write into; 'create' ones are only created when the import opts in
+	ownerDefinitions: Array<{ ownerType: string; namespace: string; key: string; action: 'create' | 'existing' }>;
+	summary: { create: number; update: number; unchanged: number; skip: number; unresolvedRefs: number; unresolvedBackReferenceOwners: number; resolvedByImport: number };
+	entries: PlannedEntry[];
+};
+
+export type PlanOptions = {
+	onProgress?: (p: ImportProgress) => void;
+	// Same policy the import will run with; entries it would leave alone are planned as 'skip'
+	conflictPolicy?: ConflictPolicy;
+};
+
+// Dry run of runImport: resolves handles and reads the target store, but never calls metaobjectUpsert, metafieldsSet or fileCreate
+export async function planImport(client: ShopifyGraphQLClient, file: ExportFile, opts: PlanOptions = {}): Promise<ImportPlan> {
+	const entries = file.entries;
+	const resolver = new BulkHandleResolver(client);
+	const progress = (message: string, extra: Partial<ImportProgress> = {}) => opts.onProgress?.({ index: 0, total: entries.length, message, phase: 'plan', ...extra });
+
+	const definitions: ImportPlan['definitions'] = [];
+	for (const def of file.definitions ?? []) {
+		progress(`Checking definition ${def.type}…`);
+		const existing = await fetchDefinitionNode(client, def.type);
+		definitions.push({ type: def.type, action: existing ? 'update' : 'create' });
+	}
+
+	const ownerDefinitions: ImportPlan['ownerDefinitions'] = [];
+	const usedOwnerKeys = new Set(entries.flatMap(e => e.backReferences ?? []).map(br => `${br.ownerType}:${normaliseAppNamespace(br.namespace)}:${br.key}`));
+	for (const def of file.ownerMetafieldDefinitions ?? []) {
+		const ownerType = metafieldOwnerTypeForResource(def.ownerType);
+		if (!ownerType || !usedOwnerKeys.has(`${def.ownerType}:${def.namespace}:${def.key}`)) continue;
+		progress(`Checking owner metafield definition ${def.ownerType} ${def.namespace}.${def.key}…`);
+		const found = await fetchOwnerMetafieldDefinitions(client, [{ ownerType, namespace: def.namespace, key: def.key }]);
+		ownerDefinitions.push({ ownerType: def.ownerType, namespace: def.namespace, key: def.key, action: found.get(`${ownerType}:${def.namespace}:${def.key}`) ? 'existing' : 'create' });
+	}
+
+	const refs = collectAllHandleReferences(entries).filter(r => !isMediaImageRef(r));
+	let resolved = new Map<HandleRef, string | null>();
+	if (refs.length > 0) {
+		resolved = await resolver.resolveBulk(refs, (p) => {
+			opts.onProgress?.({
+				index: 0,
+				total: entries.length,
+				message: p.message || `Resolving ${p.currentType || 'references'}...`,
+				phase: 'pre-resolve',
+				preResolvePhase: p.phase,
+				preResolveTotal: p.total,
+				preResolveProcessed: p.processed,
+				preResolveCurrentType: p.currentType,
+				preResolveApiCalls: p.apiCallsCount,
+				preResolveResolved: p.resolvedCount,
+				preResolveFailed: p.failedCount,
+				error: p.error
+			});
+		});
+	}
+
+	// Existing target values keyed by type/handle
+	const existing = new Map<string, Map<string, string | null>>();
+	const types = Array.from(new Set(entries.map(e => e.type)));
+	for (const type of types) {
+		if (definitions.some(d => d.type === type && d.action === 'create')) continue;
+		progress(`Fetching existing ${type} entries…`);
+		await fetchMetaobjectFieldValues(client, type, (nodes) => {
+			for (const n of nodes) existing.set(`${type}/${n.handle}`, new Map(n.fields.map(f => [f.key, f.value ?? null])));
+			progress(`Fetched ${existing.size} existing entries`);
+		});
+	}
+
+	// Entries missing from the target that the import creates; refs to them resolve once they are written
+	const policy = opts.conflictPolicy ?? 'always';
+	const createdByImport = new Set(policy === 'update-only' ? [] : entries.filter(e => !existing.has(`${e.type}/${e.handle}`)).map(e => `handle://shopify/Metaobject/${e.type}/${e.handle}`));
+	const planned: PlannedEntry[] = entries.map((e, index) => planEntry(e, index, { resolved, createdByImport, policy }, existing.get(`${e.type}/${e.handle}`)));
+	const plan: ImportPlan = {
+		environment: file.environment,
+		createdAt: new Date().toISOString(),
+		definitions,
+		ownerDefinitions,
+		summary: {
+			create: planned.filter(p => p.action === 'create').length,
+			update: planned.filter(p => p.action === 'update').length,
+			unchanged: planned.filter(p => p.action === 'unchanged').length,
+			skip: planned.filter(p => p.action === 'skip').length,
+			unresolvedRefs: planned.reduce((n, p) => n + p.unresolvedRefs.length, 0),
+			unresolvedBackReferenceOwners: planned.reduce((n, p) => n + p.unresolvedBackReferenceOwners.length, 0),
+			resolvedByImport: planned.reduce((n, p) => n + p.resolvedByImport.length, 0)
+		},
+		entries: planned
+	};
+	progress(`Plan ready: ${plan.summary.create} create, ${plan.summary.update} update, ${plan.summary.unchanged} unchanged, ${plan.summary.skip} skipped`, { index: entries.length });
+	return plan;
+}
+
+export function writeImportPlan(cwd: string, plan: ImportPlan): string {
+	const dir = path.join(cwd, 'outputs');
+	fs.mkdirSync(dir, { recursive: true });
+	const fileName = `${plan.environment ?? 'unknown'}-import-plan-${plan.createdAt.replace(/[:.]/g, '-')}.json`;
+	fs.writeFileSync(path.join(dir, fileName), JSON.stringify(plan, null, 2), 'utf8');
+	return path.join(dir, fileName);
+}
+
+type RefContext = { resolved: Map<HandleRef, string | null>; createdByImport: Set<string>; policy: ConflictPolicy };
+
+function planEntry(e: ExportEntry, index: number, refs: RefContext, current: Map<string, string | null> | undefined): PlannedEntry {
+	const unresolvedRefs = new Set<string>();
+	const resolvedByImport = new Set<string>();
+	const mediaUploads = new Set<string>();
+	const changes: PlannedFieldChange[] = [];
+
+	for (const [key, val] of Object.entries(e.fields)) {
+		const transformed = substituteRefs(val, refs, { unresolved: unresolvedRefs, byImport: resolvedByImport, media: mediaUploads });
+		if (transformed === undefined || (Array.isArray(transformed) && transformed.length === 0)) continue;
+		const to = serialiseField(transformed);
+		const from = current?.get(key) ?? null;
+		if (!current || !sameFieldValue(from, to)) changes.push({ key, from, to });
+	}
+
+	const skipReason = conflictSkip(refs.policy, current, changes);
+	// A skipped entry writes no fields; one that is not created gets no back references either
+	if (skipReason) {
+		changes.length = 0;
+		unresolvedRefs.clear();
+		resolvedByImport.clear();
+		mediaUploads.clear();
+	}
+
+	const unresolvedBackReferenceOwners = new Set<string>();
+	for (const br of skipReason === 'missing' ? [] : e.backReferences ?? []) {
+		const owner = br.owner;
+		const ok = owner.startsWith('handle://shopify/') ? Boolean(refs.resolved.get(owner)) : owner.startsWith('gid://shopify/');
+		if (!ok) unresolvedBackReferenceOwners.add(`${owner} (${normaliseAppNamespace(br.namespace)}.${br.key})`);
+	}
+
+	return {
+		index,
+		type: e.type,
+		handle: e.handle,
+		action: skipReason ? 'skip' : !current ? 'create' : changes.length > 0 ? 'update' : 'unchanged',
+		skipReason,
+		changes,
+		unresolvedRefs: Array.from(unresolvedRefs),
+		unresolvedBackReferenceOwners: Array.from(unresolvedBackReferenceOwners),
+		resolvedByImport: Array.from(resolvedByImport),
+		mediaUploads: Array.from(mediaUploads)
+	};
+}
+
+// Mirrors checkConflict in the importer
+function conflictSkip(policy: ConflictPolicy, current: Map<string, string | null> | undefined, changes: PlannedFieldChange[]): ConflictSkipReason | undefined {
+	if (policy === 'create-only' && current) return 'exists';
+	if (policy === 'update-only' && !current) return 'missing';
+	if (policy === 'skip-unchanged' && current && changes.length === 0) return 'unchanged';
+	return undefined;
+}
+
+// Mirrors transformValue in the importer, using pre-resolved ids only. Refs to entries the import creates
+// keep their handle ref so the planned value still shows them
+function substituteRefs(val: unknown, refs: RefContext, found: { unresolved: Set<string>; byImport: Set<string>; media: Set<string> }): unknown {
+	if (typeof val === 'string') {
+		if (val.startsWith('handle://shopify/')) {
+			if (isMediaImageRef(val)) { found.media.add(val); return val; }
+			const id = refs.resolved.get(val) ?? null;
+			if (id) return id;
+			if (refs.createdByImport.has(val)) { found.byImport.add(val); return val; }
+			found.unresolved.add(val);
+			return undefined;
+		}
+		if (val.startsWith('[') || val.startsWith('{')) {
+			try {
+				return substituteRefs(JSON.parse(val), refs, found);
+			} catch {
+				return val;
+			}
+		}
+	}
+	if (Array.isArray(val)) {
+		return val.map(v => substituteRefs(v, refs, found)).filter(v => v !== undefined);
+	}
+	if (val && typeof val === 'object') {
+		const obj: Record<string, unknown> = {};
+		for (const [k, v] of Object.entries(val as Record<string, unknown>)) {
+			const t = substituteRefs(v, refs, found);
+			if (t !== undefined && !(Array.isArray(t) && t.length === 0)) obj[k] = t;
+		}
+		return Object.keys(obj).length > 0 ? obj : undefined;
+	}
+	return val;
+}
+
+function isMediaImageRef(ref: string): boolean {
+	return ref.startsWith('handle://shopify/MediaImage/');
+}
@@ -0,0 +1,132 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { ExportEntry } from '@utils/schema';
+import type { PruneRecord } from '@utils/prune';
+import type { ConflictPolicy, ConflictSkipReason, ImportProgress, ImportResumeState } from '@utils/importer';
+
+type CompletionStatus = NonNullable<ImportProgress['entryCompletionStatus']> extends Map<number, infer S> ? S : never;
+
+export type ImportResultRecord = {
+	index: number;
+	type: string;
+	handle: string;
+	status: 'success' | 'skipped' | 'failed' | 'pending';
+	completionStatus?: CompletionStatus;
+	// The conflict policy left the target entry as it was
+	conflictSkip?: ConflictSkipReason;
+	error?: string;
+};
+
+export type ImportResultsFile = {
+	environment: string;
+	startedAt: string;
+	finishedAt: string;
+	count: number;
+	conflictPolicy?: ConflictPolicy;
+	skipped?: Record<ConflictSkipReason, number>;
+	results: ImportResultRecord[];
+	// Target entries deleted (or not) by the prune phase after the import
+	pruned?: PruneRecord[];
+};
+
+export function buildImportResults(opts: {
+	environment: string;
+	startedAt: Date;
+	finishedAt: Date;
+	entries: ExportEntry[];
+	completionStatus: Map<number, CompletionStatus>;
+	results?: Map<number, { status: 'success' | 'skipped' | 'failed'; error?: string }>;
+	conflictPolicy?: ConflictPolicy;
+	conflictSkips?: Map<number, ConflictSkipReason>;
+}): ImportResultsFile {
+	const skipped: Record<ConflictSkipReason, number> = { exists: 0, missing: 0, unchanged: 0 };
+	for (const reason of opts.conflictSkips?.values() ?? []) skipped[reason] += 1;
+	return {
+		environment: opts.environment,
+		startedAt: opts.startedAt.toISOString(),
+		finishedAt: opts.finishedAt.toISOString(),
+		count: opts.entries.length,
+		conflictPolicy: opts.conflictPolicy,
+		skipped,
+		results: opts.entries.map((e, idx) => {
+			const r = opts.results?.get(idx);
+			const status = opts.completionStatus.get(idx);
+			// update-only never wrote an entry missing from the target; it has nothing left to do but wasn't imported
+			const skip = opts.conflictSkips?.get(idx);
+			const settledStatus = skip === 'missing' ? 'skipped' : 'success';
+			return {
+				index: idx,
+				type: e.type,
+				handle: e.handle,
+				status: r?.status ?? (status === 'backreferences-completed' ? settledStatus : status === 'failed' ? 'failed' : 'pending'),
+				completionStatus: status,
+				conflictSkip: skip,
+				error: r?.error
+			};
+		})
+	};
+}
+
+export function writeImportResults(cwd: string, summary: ImportResultsFile): string {
+	const dir = path.join(cwd, 'outputs');
+	fs.mkdirSync(dir, { recursive: true });
+	const fileName = `${summary.environment}-import-results-${summary.finishedAt.replace(/[:.]/g, '-')}.json`;
+	fs.writeFileSync(path.join(dir, fileName), JSON.stringify(summary, null, 2), 'utf8');
+	return path.join(dir, fileName);
+}
+
+export function readImportResults(filePath: string): ImportResultsFile {
+	const raw = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Partial<ImportResultsFile>;
+	if (!Array.isArray(raw.results)) throw new Error(`${path.basename(filePath)} is not an import results file`);
+	return {
+		environment: String(raw.environment ?? 'unknown'),
+		startedAt: String(raw.startedAt ?? ''),
+		finishedAt: String(raw.finishedAt ?? ''),
+		count: typeof raw.count === 'number' ? raw.count : raw.results.length,
+		conflictPolicy: raw.conflictPolicy,
+		skipped: raw.skipped,
+		results: raw.results,
+		pruned: raw.pruned
+	};
+}
+
+// The prune phase runs after the summary was written, so its deletions are added to the same file
+export function recordPrunedEntries(filePath: string, pruned: PruneRecord[]): void {
+	const summary = readImportResults(filePath);
+	summary.pruned = (summary.pruned ?? []).concat(pruned);
+	fs.writeFileSync(filePath, JSON.stringify(summary, null, 2), 'utf8');
+}
+
+// Newest results file in outputs/ whose records line up with these entries
+export function findLatestImportResults(cwd: string, entries: ExportEntry[]): { path: string; summary: ImportResultsFile } | undefined {
+	const dir = path.join(cwd, 'outputs');
+	if (!fs.existsSync(dir)) return undefined;
+	const candidates: Array<{ path: string; summary: ImportResultsFile }> = [];
+	for (const name of fs.readdirSync(dir)) {
+		if (!name.includes('-import-results-') || !name.endsWith('.json')) continue;
+		try {
+			const summary = readImportResults(path.join(dir, name));
+			if (summary.count !== entries.length) continue;
+			if (!summary.results.every(r => entries[r.index]?.type === r.type && entries[r.index]?.handle === r.handle)) continue;
+			candidates.push({ path: path.join(dir, name), summary });
+		} catch {
+			// not a results file
+		}
+	}
+	return candidates.sort((a, b) => b.summary.finishedAt.localeCompare(a.summary.finishedAt))[0];
+}
+
+// Records are matched by index when type/handle agree, otherwise by type/handle
+export function resumeStateFromResults(entries: ExportEntry[], summary: ImportResultsFile): ImportResumeState {
+	const byKey = new Map(summary.results.map(r => [`${r.type}/${r.handle}`, r]));
+	const completed = new Set<number>();
+	const backReferencesOnly = new Set<number>();
+	entries.forEach((e, idx) => {
+		const atIndex = summary.results[idx];
+		const r = atIndex && atIndex.index === idx && atIndex.type === e.type && atIndex.handle === e.handle ? atIndex : byKey.get(`${e.type}/${e.handle}`);
+		if (!r) return;
+		if (r.status === 'success') completed.add(idx);
+		else if (r.completionStatus === 'metaobject-created' || r.completionStatus === 'backreferences-pending') backReferencesOnly.add(idx);
+	});
+	return { completed, backReferencesOnly };
+}
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ExportEntry, ExportFile } from '@utils/schema';
+import { runImport, runImportOne, type ConflictSkipReason, type ImportProgress } from '@utils/importer';
+import { buildImportResults } from '@utils/importResults';
+import { FakeShopifyClient } from '@utils/shopify/fakeClient';
+
+const handleOf = (variables: Record<string, unknown>) => (variables.handle as { handle: string }).handle;
+
+// An empty target store that records the order upserts start and finish in
+function emptyStore(): { client: FakeShopifyClient; events: string[] } {
+	const events: string[] = [];
+	const client = new FakeShopifyClient({
+		MetaobjectsByHandle: ({ variables }) => {
+			const data: Record<string, null> = {};
+			for (const key of Object.keys(variables)) if (key !== 'type') data[`m${key.slice(1)}`] = null;
+			return { data };
+		},
+		UpsertMetaobject: async ({ variables }) => {
+			events.push(`start ${handleOf(variables)}`);
+			await new Promise(resolve => setTimeout(resolve, 5));
+			events.push(`done ${handleOf(variables)}`);
+			return { data: { metaobjectUpsert: { metaobject: { id: `gid://shopify/Metaobject/${handleOf(variables)}` }, userErrors: [] } } };
+		},
+	});
+	return { client, events };
+}
+
+const entry = (handle: string, refs: string[] = []): ExportEntry => ({
+	type: 'recipe',
+	handle,
+	fields: { related: refs.map(r => `handle://shopify/Metaobject/recipe/${r}`) },
+});
+
+test('an entry is upserted only after the earlier entries it references, with independent ones in parallel', async () => {
+	const { client, events } = emptyStore();
+	const entries = [entry('a'), entry('b'), entry('c', ['a']), entry('d', ['c', 'b']), entry('e')];
+	const file: ExportFile = { environment: 'test', count: entries.length, entries };
+	await runImport(client, file, { concurrency: 3 });
+
+	const at = (event: string) => events.indexOf(event);
+	assert.equal(events.filter(e => e.startsWith('done')).length, 5);
+	assert.ok(at('start c') > at('done a'));
+	assert.ok(at('start d') > at('done c'));
+	assert.ok(at('start d') > at('done b'));
+	// a, b and e don't wait on anything
+	assert.ok(at('start e') < at('done a'));
+});
+
+test('entries finished by a previous run still release the entries that reference them', async () => {
+	const { client, events } = emptyStore();
+	const entries = [entry('a'), entry('b', ['a']), entry('c', ['b'])];
+	const file: ExportFile = { environment: 'test', count: entries.length, entries };
+	await runImport(client, file, { concurrency: 2, resume: { completed: new Set([0]), backReferencesOnly: new Set() } });
+
+	assert.deepEqual(events, ['start b', 'done b', 'start c', 'done c']);
+});
+
+test('update-only records entries missing from the target as skipped, not imported', async () => {
+	const client = new FakeShopifyClient({
+		MetaobjectFieldValuesByHandle: ({ variables }) => ({ data: { metaobjectByHandle: handleOf(variables) === 'a' ? { id: 'gid://shopify/Metaobject/1', handle: 'a', fields: [] } : null } }),
+		UpsertMetaobject: () => ({ data: { metaobjectUpsert: { metaobject: { id: 'gid://shopify/Metaobject/1' }, userErrors: [] } } }),
+	});
+	const entries = [entry('a'), entry('b')];
+	const file: ExportFile = { environment: 'test', count: entries.length, entries };
+	let completionStatus: NonNullable<ImportProgress['entryCompletionStatus']> = new Map();
+	const conflictSkips = new Map<number, ConflictSkipReason>();
+	await runImport(client, file, {
+		conflictPolicy: 'update-only',
+		onProgress: (p) => {
+			if (p.entryCompletionStatus) completionStatus = p.entryCompletionStatus;
+			if (p.conflictSkip) conflictSkips.set(p.index, p.conflictSkip);
+		},
+	});
+	const summary = buildImportResults({ environment: 'test', startedAt: new Date(), finishedAt: new Date(), entries, completionStatus, conflictPolicy: 'update-only', conflictSkips });
+
+	assert.deepEqual(client.calls('UpsertMetaobject').map(r => handleOf(r.variables)), ['a']);
+	assert.deepEqual(summary.results.map(r => [r.handle, r.status, r.conflictSkip]), [['a', 'success', undefined], ['b', 'skipped', 'missing']]);
+	assert.equal(summary.skipped?.missing, 1);
+});
+
+test('back references to an unsupported owner type fail their entries with the reason', async () => {
+	const withCustomerOwner: ExportEntry = { ...entry('a'), backReferences: [{ ownerType: 'Product', owner: 'gid://shopify/Customer/7', namespace: 'custom', key: 'favourite' }] };
+	const file: ExportFile = { environment: 'test', count: 2, entries: [withCustomerOwner, entry('b')] };
+
+	for (const skipOnError of [true, false]) {
+		const { client } = emptyStore();
+		const errors: Array<[number, string]> = [];
+		const run = runImport(client, file, { skipOnError, onProgress: (p) => { if (p.error) errors.push([p.index, p.error]); } });
+		if (skipOnError) await run;
+		else await assert.rejects(run, /unsupported metafield owners gid:\/\/shopify\/Customer\/7/);
+		assert.deepEqual(errors, [[0, 'Unsupported metafield owner gid://shopify/Customer/7']]);
+	}
+});
+
+test('importing one entry reports its unsupported back reference owners', async () => {
+	const withCustomerOwner: ExportEntry = { ...entry('a'), backReferences: [{ ownerType: 'Product', owner: 'gid://shopify/Customer/7', namespace: 'custom', key: 'favourite' }] };
+	const file: ExportFile = { environment: 'test', count: 1, entries: [withCustomerOwner] };
+
+	const errors: string[] = [];
+	await runImportOne(emptyStore().client, file, 0, { skipOnError: true, onProgress: (p) => { if (p.error) errors.push(p.error); } });
+	assert.deepEqual(errors, ['Unsupported metafield owner gid://shopify/Customer/7']);
+	await assert.rejects(runImportOne(emptyStore().client, file, 0, {}), /Unsupported metafield owner gid:\/\/shopify\/Customer\/7/);
+});
@@ -1,9 +1,11 @@
-import { ShopifyGraphQLClient } from '@utils/shopify/client';
+import { CancelledError, ShopifyGraphQLClient } from '@utils/shopify/client';
 import { BulkHandleResolver, type HandleRef } from '@utils/shopify/resolve';
-import type { ExportFile, ExportEntry } from '@utils/schema';
+import type { BackReference, ExportFile, ExportEntry, MetaobjectDefinitionExport, OwnerMetafieldDefinitionExport } from '@utils/schema';
 import { normaliseAppNamespace } from '@utils/schema';
-import { upsertMetaobject } from '@utils/shopify/metaobjects';
-import { metafieldsSetBatch } from '@utils/shopify/metafields';
+import { fetchMetaobjectFieldValuesByHandle, upsertMetaobject } from '@utils/shopify/metaobjects';
+import { definitionDependencies, ensureMetaobjectDefinition, ensureOwnerMetafieldDefinition } from '@utils/shopify/definitions';
+import { metaobjectJournalRecord, type ImportJournal } from '@utils/importJournal';
+import { buildBackReferenceSetItems, metafieldOwnerTypeForId, metafieldsSetBatch, type BackReferenceMode, type BackReferenceWrite, type MetafieldSetItem, type OwnerMetafieldValue } from '@utils/shopify/metafields';
 
 export type ImportProgress = {
 	index: number;
@@ -11,10 +13,16 @@ export type ImportProgress = {
 	current?: ExportEntry;
 	message?: string;
 	error?: string;
-	phase?: 'pre-resolve' | 'metaobjects' | 'backreferences';
+	phase?: 'definitions' | 'pre-resolve' | 'metaobjects' | 'backreferences' | 'plan' | 'rollback' | 'prune';
 	backReferencesTotal?: number;
 	backReferencesProcessed?: number;
 	entryCompletionStatus?: Map<number, 'metaobject-created' | 'backreferences-pending' | 'backreferences-completed' | 'failed'>;
+	// Metaobject phase; entries may complete out of order when concurrency > 1
+	metaobjectsProcessed?: number;
+	metaobjectsInFlight?: number;
+	// Definition pre-phase
+	definitionsTotal?: number;
+	definitionsProcessed?: number;
 	// New fields for pre-resolution phase
 	preResolvePhase?: 'collecting' | 'resolving-products' | 'resolving-collections' | 'resolving-pages' | 'resolving-metaobjects' | 'resolving-variants' | 'complete' | 'resolving-media-images';
 	preResolveTotal?: number;
@@ -24,11 +32,38 @@ export type ImportProgress = {
 	preResolveApiCalls?: number;
 	preResolveResolved?: number;
 	preResolveFailed?: number;
+	// Set on the event for an entry whose write the conflict policy skipped
+	conflictSkip?: ConflictSkipReason;
 };
 
+// What to do with entries whose handle may already exist in the target store
+// always: upsert every entry (default); create-only: leave existing ones alone; update-only: never create;
+// skip-unchanged: only write entries whose fields differ from the target
+export type ConflictPolicy = 'always' | 'create-only' | 'update-only' | 'skip-unchanged';
+
+export type ConflictSkipReason = 'exists' | 'missing' | 'unchanged';
+
 export type ImportOptions = {
 	onProgress?: (p: ImportProgress) => void;
 	skipOnError?: boolean;
+	// 'merge' (default) unions imported ids into existing list metafields; 'replace' overwrites them
+	backReferenceMode?: BackReferenceMode;
+	// Number of metaobject upserts in flight during Phase 1 (default 1)
+	concurrency?: number;
+	// Create owner metafield definitions from the export when the target store has none, before writing back references
+	createOwnerDefinitions?: boolean;
+	// Entries already handled by a previous run (see resumeStateFromResults)
+	resume?: ImportResumeState;
+	// Stops before the next definition, entry or back reference batch; in-flight upserts are allowed to finish
+	signal?: AbortSignal;
+	// Prior state of every object is recorded here before it is written, for rollbackJournal
+	journal?: ImportJournal;
+	conflictPolicy?: ConflictPolicy;
+};
+
+export type ImportResumeState = {
+	completed: Set<number>; // fully imported, skipped entirely
+	backReferencesOnly: Set<number>; // metaobject exists, only back references are re-run
 };
 
 export async function runImport(client: ShopifyGraphQLClient, file: ExportFile, opts: ImportOptions): Promise<void> {
@@ -36,6 +71,15 @@ export async function runImport(client: ShopifyGraphQLClient, file: ExportFile,
 	const entries = file.entries;
 	const createdIdsByHandleKey = new Map<string, string>(); // key: type/handle -> id
 	const entryCompletionStatus = new Map<number, 'metaobject-created' | 'backreferences-pending' | 'backreferences-completed' | 'failed'>();
+
+	const completed = opts.resume?.completed ?? new Set<number>();
+	for (const i of completed) entryCompletionStatus.set(i, 'backreferences-completed');
+	if (opts.resume) {
+		opts.onProgress?.({ index: 0, total: entries.length, message: `Resuming: ${completed.size} already imported, ${opts.resume.backReferencesOnly.size} need back references only`, phase: 'definitions', entryCompletionStatus });
+	}
+
+	// Create or update metaobject definitions so upserts don't fail on a missing type
+	await applyDefinitions(client, file.definitions ?? [], opts, { index: 0, total: entries.length, entryCompletionStatus });
 	
 	// Pre-resolve all handle references in bulk for maximum efficiency
 	opts.onProgress?.({ 
@@ -49,7 +93,9 @@ export async function runImport(client: ShopifyGraphQLClient, file: ExportFile,
 		entryCompletionStatus
 	});
 	
-	const allHandleRefs = collectAllHandleReferences(entries);
+	// Resumed entries that only need back references are looked up so Phase 2 has their ids
+	const backReferencesOnly = Array.from(opts.resume?.backReferencesOnly ?? []).filter(i => !completed.has(i));
+	const allHandleRefs = collectAllHandleReferences(entries.filter((_, i) => !completed.has(i))).concat(backReferencesOnly.map(i => metaobjectRef(entries[i])));
 	if (allHandleRefs.length > 0) {
 		await resolver.resolveBulk(allHandleRefs, (progress) => {
 			opts.onProgress?.({
@@ -84,8 +130,44 @@ export async function runImport(client: ShopifyGraphQLClient, file: ExportFile,
 		});
 	}
 	
+	throwIfCancelled(opts.signal);
+
 	// Phase 1: Create metaobjects
-	for (let i = 0; i < entries.length; i += 1) {
+	// An entry starts once every earlier entry it references has settled; later references (cycles) don't block
+	const dependencies = entryDependencies(entries);
+	const settled = new Set<number>();
+	const started = new Set<number>();
+	// Unsettled dependency counts; an entry joins the ready queue when its count drops to zero
+	const inDegree = dependencies.map(deps => deps.length);
+	const dependents: number[][] = entries.map(() => []);
+	dependencies.forEach((deps, i) => { for (const d of deps) dependents[d].push(i); });
+	const ready: number[] = [];
+	inDegree.forEach((deg, i) => { if (deg === 0) ready.push(i); });
+	const settle = (i: number) => {
+		settled.add(i);
+		for (const j of dependents[i]) {
+			inDegree[j] -= 1;
+			if (inDegree[j] === 0) ready.push(j);
+		}
+	};
+	const inFlight = new Set<Promise<void>>();
+	const concurrency = Math.max(1, Math.floor(opts.concurrency ?? 1));
+	let running = 0;
+	let firstError: unknown;
+	// Entries left missing by update-only have no metaobject to point back references at
+	const missingByPolicy = new Set<number>();
+	for (const i of completed) { started.add(i); settle(i); }
+	for (const i of backReferencesOnly) {
+		const id = await resolver.resolve(metaobjectRef(entries[i]));
+		// Missing in the target after all; upsert it again
+		if (!id) continue;
+		createdIdsByHandleKey.set(`${entries[i].type}/${entries[i].handle}`, id);
+		entryCompletionStatus.set(i, 'backreferences-pending');
+		started.add(i);
+		settle(i);
+	}
+
+	const upsertEntry = async (i: number) => {
 		const e = entries[i];
 		try {
 			opts.onProgress?.({ 
@@ -94,6 +176,8 @@ export async function runImport(client: ShopifyGraphQLClient, file: ExportFile,
 				current: e, 
 				message: `Upserting ${e.type}/${e.handle}`,
 				phase: 'metaobjects',
+				metaobjectsProcessed: settled.size,
+				metaobjectsInFlight: running,
 				entryCompletionStatus
 			});
 			const fields = await transformFieldsForImport(e.fields, resolver);
@@ -104,38 +188,97 @@ export async function runImport(client: ShopifyGraphQLClient, file: ExportFile,
 				handle: { type: e.type, handle: e.handle },
 				metaobject: { fields: inputFields }
 			};
+			const conflict = await checkConflict(client, e, inputFields, opts);
+			if (conflict.skip) {
+				if (conflict.existingId) {
+					createdIdsByHandleKey.set(`${e.type}/${e.handle}`, conflict.existingId);
+					resolver.remember(metaobjectRef(e), conflict.existingId);
+					entryCompletionStatus.set(i, (e.backReferences ?? []).length > 0 ? 'backreferences-pending' : 'backreferences-completed');
+				} else {
+					missingByPolicy.add(i);
+					entryCompletionStatus.set(i, 'backreferences-completed');
+				}
+				settle(i);
+				running--;
+				opts.onProgress?.({
+					index: i,
+					total: entries.length,
+					current: e,
+					message: conflictSkipMessage(e, conflict.skip),
+					phase: 'metaobjects',
+					metaobjectsProcessed: settled.size,
+					metaobjectsInFlight: running,
+					conflictSkip: conflict.skip,
+					entryCompletionStatus
+				});
+				return;
+			}
 			const res = await upsertMetaobject(client, input);
 			if (res.userErrors && res.userErrors.length) {
 				throw new Error(`Failed to upsert ${e.type}/${e.handle}: ${res.userErrors.map(u => u.message).join('; ')}`);
 			}
 			if (res.id) {
 				createdIdsByHandleKey.set(`${e.type}/${e.handle}`, res.id);
+				resolver.remember(metaobjectRef(e), res.id);
 				// Check if this entry has backreferences
 				const hasBackReferences = (e.backReferences ?? []).length > 0;
 				entryCompletionStatus.set(i, hasBackReferences ? 'backreferences-pending' : 'backreferences-completed');
 			}
+			settle(i);
+			running--;
 		} catch (err) {
 			const msg = String(err);
 			entryCompletionStatus.set(i, 'failed');
-			if (opts.skipOnError) {
-				opts.onProgress?.({ 
-					index: i, 
-					total: entries.length, 
-					current: e, 
-					message: `Skipped ${e.type}/${e.handle}`, 
-					error: msg,
-					phase: 'metaobjects',
-					entryCompletionStatus
-				});
-				continue;
+			settle(i);
+			running--;
+			if (!opts.skipOnError) {
+				firstError ??= err;
+				return;
 			}
-			throw err;
+			opts.onProgress?.({ 
+				index: i, 
+				total: entries.length, 
+				current: e, 
+				message: `Skipped ${e.type}/${e.handle}`, 
+				error: msg,
+				phase: 'metaobjects',
+				metaobjectsProcessed: settled.size,
+				metaobjectsInFlight: running,
+				entryCompletionStatus
+			});
 		}
+	};
+
+	// Entries settled before Phase 1 (journal, back-references only) are still queued; skip them here
+	const nextReady = (): number | undefined => {
+		while (ready.length > 0) {
+			const i = ready.shift()!;
+			if (!started.has(i)) return i;
+		}
+		return undefined;
+	};
+
+	while (started.size < entries.length && firstError === undefined && !opts.signal?.aborted) {
+		let next = inFlight.size < concurrency ? nextReady() : undefined;
+		while (next !== undefined) {
+			started.add(next);
+			running++;
+			const task: Promise<void> = upsertEntry(next).finally(() => { inFlight.delete(task); });
+			inFlight.add(task);
+			next = inFlight.size < concurrency ? nextReady() : undefined;
+		}
+		if (inFlight.size === 0) break;
+		await Promise.race(inFlight);
 	}
+	// Let running upserts finish before reporting a failure so their status is recorded
+	await Promise.all(inFlight);
+	if (firstError !== undefined) throw firstError;
+	throwIfCancelled(opts.signal);
 
 	// Phase 2: Apply back references if present
 	const pending: Array<{ ownerRef: string; namespace: string; key: string; metaobjectKey: string; entryIndex: number }> = [];
 	for (let i = 0; i < entries.length; i += 1) {
+		if (completed.has(i) || missingByPolicy.has(i)) continue;
 		const e = entries[i];
 		const brs = e.backReferences ?? [];
 		for (const br of brs) {
@@ -163,6 +306,10 @@ export async function runImport(client: ShopifyGraphQLClient, file: ExportFile,
 		return;
 	}
 
+	if (opts.createOwnerDefinitions) {
+		await applyOwnerMetafieldDefinitions(client, file.ownerMetafieldDefinitions ?? [], entries.flatMap((e, i) => completed.has(i) || missingByPolicy.has(i) ? [] : e.backReferences ?? []), opts, { index: entries.length, total: entries.length, entryCompletionStatus });
+	}
+
 	opts.onProgress?.({ 
 		index: entries.length, 
 		total: entries.length, 
@@ -250,14 +397,71 @@ export async function runImport(client: ShopifyGraphQLClient, file: ExportFile,
 		group.entryIndices.push(p.entryIndex);
 	}
 
-	const items: { ownerId: string; namespace: string; key: string; ids?: string[]; id?: string; entryIndices: number[] }[] = [];
+	const writes: Array<BackReferenceWrite & { entryIndices: number[] }> = [];
+	const unsupportedOwners: string[] = [];
 	for (const g of groups.values()) {
 		const unique = Array.from(new Set(g.metaobjectIds));
 		if (unique.length === 0 || !g.ownerId) continue;
-		if (unique.length === 1) {
-			items.push({ ownerId: g.ownerId, namespace: g.namespace, key: g.key, id: unique[0], entryIndices: g.entryIndices });
-		} else {
-			items.push({ ownerId: g.ownerId, namespace: g.namespace, key: g.key, ids: unique, entryIndices: g.entryIndices });
+		const ownerType = metafieldOwnerTypeForId(g.ownerId);
+		if (!ownerType) {
+			// Not a metafield owner we support; each entry gets the reason so results don't show a bare failure
+			const error = `Unsupported metafield owner ${g.ownerId}`;
+			unsupportedOwners.push(g.ownerId);
+			for (const entryIndex of Array.from(new Set(g.entryIndices))) {
+				entryCompletionStatus.set(entryIndex, 'failed');
+				const e = entries[entryIndex];
+				opts.onProgress?.({
+					index: entryIndex,
+					total: entries.length,
+					current: e,
+					message: opts.skipOnError ? `Skipped back references of ${e.type}/${e.handle}` : `Back references of ${e.type}/${e.handle} failed`,
+					error,
+					phase: 'backreferences',
+					backReferencesTotal: pending.length,
+					backReferencesProcessed: pending.length,
+					entryCompletionStatus
+				});
+			}
+			continue;
+		}
+		writes.push({ ownerId: g.ownerId, ownerType, namespace: g.namespace, key: g.key, ids: unique, entryIndices: g.entryIndices });
+	}
+	if (unsupportedOwners.length > 0 && !opts.skipOnError) {
+		throw new Error(`Failed to set back references: unsupported metafield owners ${unsupportedOwners.join(', ')}`);
+	}
+
+	const items: Array<MetafieldSetItem & { entryIndices: number[]; previous: OwnerMetafieldValue | null }> = [];
+	if (writes.length > 0) {
+		opts.onProgress?.({ 
+			index: entries.length, 
+			total: entries.length, 
+			message: `Reading current values for ${writes.length} owner metafields…`,
+			phase: 'backreferences',
+			backReferencesTotal: pending.length,
+			backReferencesProcessed: pending.length,
+			entryCompletionStatus
+		});
+		const prepared = await buildBackReferenceSetItems(client, writes, opts.backReferenceMode);
+		const prepErrors: string[] = [];
+		writes.forEach((w, i) => {
+			const item = prepared.items[i];
+			if (item) { items.push({ ...item, entryIndices: w.entryIndices, previous: prepared.previous[i] }); return; }
+			prepErrors.push(prepared.errors[i] ?? `Cannot set ${w.namespace}.${w.key} on ${w.ownerId}`);
+			for (const entryIndex of w.entryIndices) entryCompletionStatus.set(entryIndex, 'failed');
+		});
+		if (prepErrors.length > 0) {
+			const msg = prepErrors.join('; ');
+			if (!opts.skipOnError) throw new Error(`Failed to set back references: ${msg}`);
+			opts.onProgress?.({ 
+				index: entries.length, 
+				total: entries.length, 
+				message: `Skipped ${prepErrors.length} back reference groups`, 
+				error: msg,
+				phase: 'backreferences',
+				backReferencesTotal: pending.length,
+				backReferencesProcessed: pending.length,
+				entryCompletionStatus
+			});
 		}
 	}
 	
@@ -284,6 +488,8 @@ export async function runImport(client: ShopifyGraphQLClient, file: ExportFile,
 		entryCompletionStatus
 	});
 
+	throwIfCancelled(opts.signal);
+	opts.journal?.append(items.map(i => ({ kind: 'metafield', ownerId: i.ownerId, namespace: i.namespace, key: i.key, previous: i.previous })));
 	const res2 = await metafieldsSetBatch(client, items);
 	if (res2.userErrors.length) {
 		const msg = res2.userErrors.map(u => u.message).join('; ');
@@ -336,6 +542,11 @@ export async function runImportOne(client: ShopifyGraphQLClient, file: ExportFil
 	if (!e) return;
 	
 	const entryCompletionStatus = new Map<number, 'metaobject-created' | 'backreferences-pending' | 'backreferences-completed' | 'failed'>();
+
+	// Ensure the entry's definition exists (and those it references) before upserting
+	const definitions = file.definitions ?? [];
+	const needed = collectDefinitionClosure(definitions, e.type);
+	await applyDefinitions(client, definitions.filter(d => needed.has(d.type)), opts, { index, total: entries.length, current: e, entryCompletionStatus });
 	
 	// Pre-resolve handle references for this entry
 	const handleRefs = collectAllHandleReferences([e]);
@@ -397,15 +608,30 @@ export async function runImportOne(client: ShopifyGraphQLClient, file: ExportFil
 			handle: { type: e.type, handle: e.handle },
 			metaobject: { fields: inputFields }
 		};
-		const res = await upsertMetaobject(client, input);
-		if (res.userErrors && res.userErrors.length) {
-			throw new Error(`Failed to upsert ${e.type}/${e.handle}: ${res.userErrors.map(u => u.message).join('; ')}`);
+		const conflict = await checkConflict(client, e, inputFields, opts);
+		if (conflict.skip === 'missing') {
+			entryCompletionStatus.set(index, 'backreferences-completed');
+			opts.onProgress?.({ index, total: entries.length, current: e, message: conflictSkipMessage(e, conflict.skip), phase: 'metaobjects', conflictSkip: conflict.skip, entryCompletionStatus });
+			return;
+		}
+		if (conflict.skip) {
+			opts.onProgress?.({ index, total: entries.length, current: e, message: conflictSkipMessage(e, conflict.skip), phase: 'metaobjects', conflictSkip: conflict.skip, entryCompletionStatus });
+		}
+		let createdId = conflict.existingId;
+		if (!conflict.skip) {
+			const res = await upsertMetaobject(client, input);
+			if (res.userErrors && res.userErrors.length) {
+				throw new Error(`Failed to upsert ${e.type}/${e.handle}: ${res.userErrors.map(u => u.message).join('; ')}`);
+			}
+			createdId = res.id;
 		}
-		const createdId = res.id;
 		const brs = e.backReferences ?? [];
 		
 		if (createdId && brs.length > 0) {
 			entryCompletionStatus.set(index, 'backreferences-pending');
+			if (opts.createOwnerDefinitions) {
+				await applyOwnerMetafieldDefinitions(client, file.ownerMetafieldDefinitions ?? [], brs, opts, { index, total: entries.length, current: e, entryCompletionStatus });
+			}
 			opts.onProgress?.({ 
 				index, 
 				total: entries.length, 
@@ -441,7 +667,6 @@ export async function runImportOne(client: ShopifyGraphQLClient, file: ExportFil
 			}
 			
 			// Resolve owners and set metafields for this entry only
-			const items: { ownerId: string; namespace: string; key: string; ids?: string[]; id?: string }[] = [];
 			// Group by owner/namespace/key
 			const groups = new Map<string, { ownerId: string; namespace: string; key: string; metaobjectIds: string[] }>();
 			let processedBackRefs = 0;
@@ -470,10 +695,49 @@ export async function runImportOne(client: ShopifyGraphQLClient, file: ExportFil
 				if (!groups.has(gk)) groups.set(gk, { ownerId, namespace: ns, key: br.key, metaobjectIds: [] });
 				groups.get(gk)!.metaobjectIds.push(createdId);
 			}
+			const writes: BackReferenceWrite[] = [];
+			const unsupportedOwners: string[] = [];
 			for (const g of groups.values()) {
-				const uniques = Array.from(new Set(g.metaobjectIds));
-				if (uniques.length === 1) items.push({ ownerId: g.ownerId, namespace: g.namespace, key: g.key, id: uniques[0] });
-				else items.push({ ownerId: g.ownerId, namespace: g.namespace, key: g.key, ids: uniques });
+				const ownerType = metafieldOwnerTypeForId(g.ownerId);
+				if (!ownerType) { unsupportedOwners.push(g.ownerId); continue; }
+				writes.push({ ownerId: g.ownerId, ownerType, namespace: g.namespace, key: g.key, ids: Array.from(new Set(g.metaobjectIds)) });
+			}
+			if (unsupportedOwners.length > 0) {
+				const error = unsupportedOwners.map(id => `Unsupported metafield owner ${id}`).join('; ');
+				entryCompletionStatus.set(index, 'failed');
+				if (!opts.skipOnError) throw new Error(`Failed to set back references: ${error}`);
+				opts.onProgress?.({
+					index,
+					total: entries.length,
+					current: e,
+					message: `Skipped ${unsupportedOwners.length} back reference groups`,
+					error,
+					phase: 'backreferences',
+					entryCompletionStatus
+				});
+			}
+			const items: MetafieldSetItem[] = [];
+			if (writes.length > 0) {
+				const prepared = await buildBackReferenceSetItems(client, writes, opts.backReferenceMode);
+				const prepErrors = prepared.errors.filter((m): m is string => Boolean(m));
+				if (prepErrors.length > 0) {
+					entryCompletionStatus.set(index, 'failed');
+					if (!opts.skipOnError) throw new Error(`Failed to set back references: ${prepErrors.join('; ')}`);
+					opts.onProgress?.({ 
+						index, 
+						total: entries.length, 
+						current: e, 
+						message: `Skipped ${prepErrors.length} back reference groups`,
+						error: prepErrors.join('; '),
+						phase: 'backreferences',
+						entryCompletionStatus
+					});
+				}
+				prepared.items.forEach((item, i) => {
+					if (!item) return;
+					items.push(item);
+					opts.journal?.append([{ kind: 'metafield', ownerId: item.ownerId, namespace: item.namespace, key: item.key, previous: prepared.previous[i] }]);
+				});
 			}
 			if (items.length > 0) {
 				opts.onProgress?.({ 
@@ -487,15 +751,16 @@ export async function runImportOne(client: ShopifyGraphQLClient, file: ExportFil
 					entryCompletionStatus
 				});
 				
+				throwIfCancelled(opts.signal);
 				const res2 = await metafieldsSetBatch(client, items);
 				if (res2.userErrors.length) {
 					const msg = res2.userErrors.map(u => u.message).join('; ');
 					entryCompletionStatus.set(index, 'failed');
 					if (!opts.skipOnError) throw new Error(`Failed to set back references: ${msg}`);
-				} else {
+				} else if (entryCompletionStatus.get(index) !== 'failed') {
 					entryCompletionStatus.set(index, 'backreferences-completed');
 				}
-			} else {
+			} else if (entryCompletionStatus.get(index) !== 'failed') {
 				entryCompletionStatus.set(index, 'backreferences-completed');
 			}
 		} else {
@@ -530,6 +795,125 @@ export async function runImportOne(client: ShopifyGraphQLClient, file: ExportFil
 	}
 }
 
+async function applyDefinitions(client: ShopifyGraphQLClient, definitions: MetaobjectDefinitionExport[], opts: ImportOptions, base: Pick<ImportProgress, 'index' | 'total' | 'current' | 'entryCompletionStatus'>): Promise<void> {
+	if (definitions.length === 0) return;
+	const ordered = sortDefinitionsByDependency(definitions);
+	let processed = 0;
+	for (const def of ordered) {
+		throwIfCancelled(opts.signal);
+		opts.onProgress?.({ ...base, message: `Applying definition ${def.type}…`, phase: 'definitions', definitionsTotal: ordered.length, definitionsProcessed: processed });
+		const res = await ensureMetaobjectDefinition(client, def);
+		processed++;
+		if (res.userErrors.length > 0) {
+			const msg = `Failed to ${res.action === 'created' ? 'create' : 'update'} definition ${def.type}: ${res.userErrors.map(u => u.message).join('; ')}`;
+			if (!opts.skipOnError) throw new Error(msg);
+			opts.onProgress?.({ ...base, message: `Skipped definition ${def.type}`, error: msg, phase: 'definitions', definitionsTotal: ordered.length, definitionsProcessed: processed });
+			continue;
+		}
+		opts.onProgress?.({ ...base, message: `Definition ${def.type} ${res.action}`, phase: 'definitions', definitionsTotal: ordered.length, definitionsProcessed: processed });
+	}
+}
+
+// Only definitions some back reference actually writes into are created
+async function applyOwnerMetafieldDefinitions(client: ShopifyGraphQLClient, definitions: OwnerMetafieldDefinitionExport[], backReferences: BackReference[], opts: ImportOptions, base: Pick<ImportProgress, 'index' | 'total' | 'current' | 'entryCompletionStatus'>): Promise<void> {
+	const used = new Set(backReferences.map(br => `${br.ownerType}:${normaliseAppNamespace(br.namespace)}:${br.key}`));
+	const relevant = definitions.filter(d => used.has(`${d.ownerType}:${d.namespace}:${d.key}`));
+	for (const def of relevant) {
+		throwIfCancelled(opts.signal);
+		const label = `${def.ownerType} ${def.namespace}.${def.key}`;
+		opts.onProgress?.({ ...base, message: `Checking owner metafield definition ${label}…`, phase: 'backreferences' });
+		const res = await ensureOwnerMetafieldDefinition(client, def);
+		if (res.userErrors.length > 0) {
+			const msg = `Failed to create owner metafield definition ${label}: ${res.userErrors.map(u => u.message).join('; ')}`;
+			if (!opts.skipOnError) throw new Error(msg);
+			opts.onProgress?.({ ...base, message: `Skipped owner metafield definition ${label}`, error: msg, phase: 'backreferences' });
+			continue;
+		}
+		if (res.action === 'created') opts.onProgress?.({ ...base, message: `Owner metafield definition ${label} created`, phase: 'backreferences' });
+	}
+}
+
+function sortDefinitionsByDependency(definitions: MetaobjectDefinitionExport[]): MetaobjectDefinitionExport[] {
+	// Depth-first so referenced definitions are created before the ones that point at them; cycles fall back to file order
+	const byType = new Map(definitions.map(d => [d.type, d]));
+	const visited = new Set<string>();
+	const ordered: MetaobjectDefinitionExport[] = [];
+	const visit = (def: MetaobjectDefinitionExport, stack: Set<string>) => {
+		if (visited.has(def.type) || stack.has(def.type)) return;
+		stack.add(def.type);
+		for (const dep of definitionDependencies(def)) {
+			const d = byType.get(dep);
+			if (d) visit(d, stack);
+		}
+		stack.delete(def.type);
+		visited.add(def.type);
+		ordered.push(def);
+	};
+	for (const def of definitions) visit(def, new Set());
+	return ordered;
+}
+
+function collectDefinitionClosure(definitions: MetaobjectDefinitionExport[], type: string): Set<string> {
+	const byType = new Map(definitions.map(d => [d.type, d]));
+	const out = new Set<string>();
+	const queue = [type];
+	while (queue.length) {
+		const t = queue.shift()!;
+		if (out.has(t)) continue;
+		out.add(t);
+		const def = byType.get(t);
+		if (def) queue.push(...definitionDependencies(def));
+	}
+	return out;
+}
+
+// Reads the target entry when the policy or the journal needs it; existingId is set when a skipped entry is in the store
+async function checkConflict(client: ShopifyGraphQLClient, e: ExportEntry, inputFields: Array<{ key: string; value: string }>, opts: ImportOptions): Promise<{ skip?: ConflictSkipReason; existingId?: string }> {
+	const policy = opts.conflictPolicy ?? 'always';
+	if (policy === 'always' && !opts.journal) return {};
+	const current = await fetchMetaobjectFieldValuesByHandle(client, e.type, e.handle);
+	if (policy === 'create-only' && current) return { skip: 'exists', existingId: current.id };
+	if (policy === 'update-only' && !current) return { skip: 'missing' };
+	if (policy === 'skip-unchanged' && current) {
+		const values = new Map(current.fields.map(f => [f.key, f.value ?? null]));
+		if (inputFields.every(f => sameFieldValue(values.get(f.key) ?? null, f.value))) return { skip: 'unchanged', existingId: current.id };
+	}
+	opts.journal?.append([metaobjectJournalRecord(e.type, e.handle, current)]);
+	return {};
+}
+
+function conflictSkipMessage(e: ExportEntry, reason: ConflictSkipReason): string {
+	switch (reason) {
+		case 'exists': return `Kept existing ${e.type}/${e.handle} (create-only)`;
+		case 'missing': return `Not creating ${e.type}/${e.handle} (update-only)`;
+		case 'unchanged': return `Unchanged ${e.type}/${e.handle}`;
+	}
+}
+
+function throwIfCancelled(signal?: AbortSignal): void {
+	if (signal?.aborted) throw new CancelledError('Import cancelled');
+}
+
+function metaobjectRef(e: ExportEntry): HandleRef {
+	return `handle://shopify/Metaobject/${e.type}/${e.handle}`;
+}
+
+// For each entry, the indices of earlier entries its fields reference
+function entryDependencies(entries: ExportEntry[]): number[][] {
+	const indexByRef = new Map<string, number>();
+	entries.forEach((e, i) => { if (!indexByRef.has(metaobjectRef(e))) indexByRef.set(metaobjectRef(e), i); });
+	return entries.map((e, i) => {
+		const refs = new Set<HandleRef>();
+		collectHandleRefsFromValue(e.fields, refs);
+		const deps = new Set<number>();
+		for (const ref of refs) {
+			const j = indexByRef.get(ref);
+			if (j !== undefined && j < i) deps.add(j);
+		}
+		return Array.from(deps);
+	});
+}
+
 async function transformFieldsForImport(fields: Record<string, unknown>, resolver: BulkHandleResolver): Promise<Record<string, unknown>> {
 	const out: Record<string, unknown> = {};
 	for (const [key, val] of Object.entries(fields)) {
@@ -578,14 +962,34 @@ async function transformValue(val: unknown, resolver: BulkHandleResolver): Promi
 	return val;
 }
 
-function serialiseField(value: unknown): string {
+export function serialiseField(value: unknown): string {
 	// If value is an object/array, serialise as JSON; else coerce to string
 	if (value === null || value === undefined) return '';
 	if (typeof value === 'object') return JSON.stringify(value);
 	return String(value);
 }
 
-function collectAllHandleReferences(entries: ExportEntry[]): HandleRef[] {
+export function sameFieldValue(a: string | null, b: string): boolean {
+	if (a === b) return true;
+	if (a === null) return b === '';
+	// JSON values can differ only in whitespace or key order between stores
+	try {
+		return canonicalJson(JSON.parse(a)) === canonicalJson(JSON.parse(b));
+	} catch {
+		return false;
+	}
+}
+
+function canonicalJson(value: unknown): string {
+	if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+	if (value && typeof value === 'object') {
+		const obj = value as Record<string, unknown>;
+		return `{${Object.keys(obj).sort().map(k => `${JSON.stringify(k)}:${canonicalJson(obj[k])}`).join(',')}}`;
+	}
+	return JSON.stringify(value);
+}
+
+export function collectAllHandleReferences(entries: ExportEntry[]): HandleRef[] {
 	const refs = new Set<HandleRef>();
 	
 	for (const entry of entries) {
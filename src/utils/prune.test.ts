@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseExportFile, type ExportFile } from '@utils/schema';
+import { findPruneCandidates } from '@utils/prune';
+import { FakeShopifyClient } from '@utils/shopify/fakeClient';
+
+// A target store holding these handles per type
+function storeWith(store: Record<string, string[]>): FakeShopifyClient {
+	return new FakeShopifyClient({
+		MetaobjectFieldValues: ({ variables }) => {
+			const type = variables.type as string;
+			const nodes = (store[type] ?? []).map(handle => ({ id: `gid://shopify/Metaobject/${type}-${handle}`, handle, fields: [] }));
+			return { data: { metaobjects: { pageInfo: { hasNextPage: false }, nodes } } };
+		},
+	});
+}
+
+const store = { recipe: ['soup', 'stew'], ingredient: ['leek', 'salt', 'pepper'] };
+
+test('types pulled in as dependencies are never pruned', async () => {
+	const client = storeWith(store);
+	// As written by an export of recipe with --include-dependencies, read back from disk
+	const { file } = parseExportFile(JSON.stringify({
+		types: ['recipe'],
+		dependencies: { ingredient: 1 },
+		count: 2,
+		entries: [
+			{ type: 'recipe', handle: 'soup', fields: { ingredients: ['handle://shopify/Metaobject/ingredient/leek'] } },
+			{ type: 'ingredient', handle: 'leek', fields: {} },
+		],
+	}));
+	const candidates = await findPruneCandidates(client, file);
+
+	assert.deepEqual(client.calls('MetaobjectFieldValues').map(r => r.variables.type), ['recipe']);
+	assert.deepEqual(candidates.map(c => `${c.type}/${c.handle}`), ['recipe/stew']);
+});
+
+test('a dependency export that does not record its requested types is refused', async () => {
+	const client = storeWith(store);
+	const file: ExportFile = { count: 1, dependencies: { ingredient: 1 }, entries: [{ type: 'ingredient', handle: 'leek', fields: {} }] };
+	await assert.rejects(findPruneCandidates(client, file), /Refusing to prune/);
+});
+
+test('files without requested types fall back to the types of their entries', async () => {
+	const client = storeWith(store);
+	const file: ExportFile = { count: 1, entries: [{ type: 'ingredient', handle: 'leek', fields: {} }] };
+	const candidates = await findPruneCandidates(client, file);
+	assert.deepEqual(candidates.map(c => c.handle), ['salt', 'pepper']);
+});
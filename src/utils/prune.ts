@@ -0,0 +1,65 @@
+import { ShopifyGraphQLClient } from '@utils/shopify/client';
+import { deleteMetaobject, fetchMetaobjectFieldValues, type MetaobjectFieldValues } from '@utils/shopify/metaobjects';
+import { metaobjectJournalRecord, type ImportJournal } from '@utils/importJournal';
+import { normaliseMetaobjectType, type ExportFile } from '@utils/schema';
+
+// Target entry whose handle is not in the export file
+export type PruneCandidate = { type: string; handle: string; id: string; fields: MetaobjectFieldValues['fields'] };
+
+export type PruneRecord = { type: string; handle: string; id: string; status: 'deleted' | 'failed'; error?: string };
+
+export type PruneProgress = { total: number; processed: number; message: string; error?: string };
+
+// Lists every target entry of the file's requested types that the file doesn't contain. Files without `types`
+// (older exports) fall back to the types of their entries and definitions
+export async function findPruneCandidates(client: ShopifyGraphQLClient, file: ExportFile, opts: { onProgress?: (p: PruneProgress) => void } = {}): Promise<PruneCandidate[]> {
+	// A cancelled export is missing entries, so everything after the cut would look deleted
+	if (file.partial) throw new Error('Refusing to prune from a partial export');
+	// Same for a filtered export: entries outside the filters aren't in the file
+	if (file.filters) throw new Error('Refusing to prune from a filtered export');
+	// Entries pulled in as dependencies are only the referenced few of their type, so those types are never pruned
+	if (file.dependencies && !file.types) throw new Error('Refusing to prune from an export with dependencies that doesn\'t record its requested types');
+	const inFile = new Set(file.entries.map(e => `${e.type}/${e.handle}`));
+	const types = file.types
+		? Array.from(new Set(file.types.map(normaliseMetaobjectType)))
+		: Array.from(new Set(file.entries.map(e => e.type).concat((file.definitions ?? []).map(d => d.type))));
+	const candidates: PruneCandidate[] = [];
+	for (const [i, type] of types.entries()) {
+		opts.onProgress?.({ total: types.length, processed: i, message: `Listing ${type} entries in the target…` });
+		await fetchMetaobjectFieldValues(client, type, (nodes) => {
+			for (const n of nodes) {
+				if (!inFile.has(`${type}/${n.handle}`)) candidates.push({ type, handle: n.handle, id: n.id, fields: n.fields });
+			}
+		});
+	}
+	opts.onProgress?.({ total: types.length, processed: types.length, message: `${candidates.length} target entries are not in the file` });
+	return candidates;
+}
+
+// Deletes the candidates via metaobjectDelete; each one is journaled first so a rollback recreates it.
+// Stops early when the signal fires and returns what was done, so the caller can still log it.
+export async function pruneEntries(client: ShopifyGraphQLClient, candidates: PruneCandidate[], opts: { onProgress?: (p: PruneProgress) => void; signal?: AbortSignal; journal?: ImportJournal } = {}): Promise<PruneRecord[]> {
+	const records: PruneRecord[] = [];
+	for (const c of candidates) {
+		if (opts.signal?.aborted) break;
+		opts.onProgress?.({ total: candidates.length, processed: records.length, message: `Deleting ${c.type}/${c.handle}…` });
+		opts.journal?.append([metaobjectJournalRecord(c.type, c.handle, c)]);
+		try {
+			const res = await deleteMetaobject(client, c.id);
+			if (res.userErrors.length > 0) {
+				const error = res.userErrors.map(u => u.message).join('; ');
+				records.push({ type: c.type, handle: c.handle, id: c.id, status: 'failed', error });
+				opts.onProgress?.({ total: candidates.length, processed: records.length, message: `Failed to delete ${c.type}/${c.handle}`, error });
+				continue;
+			}
+			records.push({ type: c.type, handle: c.handle, id: c.id, status: 'deleted' });
+		} catch (err) {
+			const error = err instanceof Error ? err.message : String(err);
+			records.push({ type: c.type, handle: c.handle, id: c.id, status: 'failed', error });
+			opts.onProgress?.({ total: candidates.length, processed: records.length, message: `Failed to delete ${c.type}/${c.handle}`, error });
+		}
+	}
+	const deleted = records.filter(r => r.status === 'deleted').length;
+	opts.onProgress?.({ total: candidates.length, processed: records.length, message: `Pruned ${deleted} of ${candidates.length} entries` });
+	return records;
+}
@@ -7,10 +7,65 @@ export type ExportEntry = {
 
 export type ExportFile = {
 	environment?: string;
+	types?: string[]; // requested types
+	// Watermark: when the export started; an incremental export picks up entries updated at or after it, less a margin for clock skew
+	exportedAt?: string;
+	// Previous export an incremental (delta) file was taken against
+	incrementalFrom?: string;
 	count: number;
+	// Set when the export was cancelled before every type was fetched
+	partial?: boolean;
+	// Set when only some entries of each type were exported
+	filters?: ExportFilters;
+	// Entries per type pulled in because exported entries reference them (includeDependencies)
+	dependencies?: Record<string, number>;
+	definitions?: MetaobjectDefinitionExport[];
+	ownerMetafieldDefinitions?: OwnerMetafieldDefinitionExport[];
 	entries: ExportEntry[];
 };
 
+export type ExportFilters = {
+	handles?: string[];
+	query?: string; // Shopify search syntax, e.g. display_name:Summer*
+	updatedSince?: string; // ISO date or date-time; entries updated at or after it
+};
+
+export type FieldDefinitionExport = {
+	key: string;
+	name: string;
+	description?: string;
+	type: string; // e.g. single_line_text_field, list.metaobject_reference
+	required: boolean;
+	// Metaobject definition ids in validations are exported as handle://shopify/MetaobjectDefinition/<type>
+	validations: Array<{ name: string; value: string }>;
+};
+
+export type MetaobjectDefinitionExport = {
+	type: string;
+	name: string;
+	description?: string;
+	displayNameKey?: string;
+	access?: { admin?: string; storefront?: string };
+	capabilities?: {
+		publishable?: { enabled: boolean };
+		translatable?: { enabled: boolean };
+		renderable?: { enabled: boolean; data?: { metaTitleKey?: string; metaDescriptionKey?: string } };
+		onlineStore?: { enabled: boolean; data?: { urlHandle?: string; createRedirects?: boolean } };
+	};
+	fieldDefinitions: FieldDefinitionExport[];
+};
+
+// Definition of the owner-side metafield a BackReference writes into
+export type OwnerMetafieldDefinitionExport = {
+	ownerType: BackReference['ownerType'];
+	namespace: string;
+	key: string;
+	name: string;
+	description?: string;
+	type: string; // e.g. list.metaobject_reference
+	validations: Array<{ name: string; value: string }>;
+};
+
 export type ExportStats = {
 	total: number;
 	byType: Record<string, number>;
@@ -69,12 +124,26 @@ export function parseExportFile(text: string): { file: ExportFile; stats: Export
 			backReferences
 		};
 	});
+	const definitionsVal = (raw as Record<string, unknown>).definitions as unknown;
+	const definitions = Array.isArray(definitionsVal) ? definitionsVal.filter(isRecord).map(parseDefinition).filter((d) => d.type) : undefined;
+	const ownerDefsVal = (raw as Record<string, unknown>).ownerMetafieldDefinitions as unknown;
+	const ownerMetafieldDefinitions = Array.isArray(ownerDefsVal) ? ownerDefsVal.filter(isRecord).map(parseOwnerMetafieldDefinition).filter((d) => d.namespace && d.key && d.type) : undefined;
 	const environment = typeof (raw as Record<string, unknown>).environment === 'string' ? String((raw as Record<string, unknown>).environment) : undefined;
 	const countRaw = (raw as Record<string, unknown>).count as unknown;
 	const countParsed = typeof countRaw === 'number' ? countRaw : Number.isFinite(Number(countRaw)) ? Number(countRaw) : undefined;
+	const typesVal = (raw as Record<string, unknown>).types as unknown;
+	const str = (key: string) => (typeof (raw as Record<string, unknown>)[key] === 'string' ? String((raw as Record<string, unknown>)[key]) : undefined);
 	const file: ExportFile = {
 		environment,
+		types: Array.isArray(typesVal) ? typesVal.map(String) : undefined,
+		exportedAt: str('exportedAt'),
+		incrementalFrom: str('incrementalFrom'),
 		count: countParsed ?? entries.length,
+		partial: (raw as Record<string, unknown>).partial === true ? true : undefined,
+		filters: isRecord((raw as Record<string, unknown>).filters) ? parseFilters((raw as Record<string, unknown>).filters as Record<string, unknown>) : undefined,
+		dependencies: isRecord((raw as Record<string, unknown>).dependencies) ? parseDependencies((raw as Record<string, unknown>).dependencies as Record<string, unknown>) : undefined,
+		definitions,
+		ownerMetafieldDefinitions,
 		entries
 	};
 	if (!Number.isFinite(file.count) || file.count !== entries.length) file.count = entries.length;
@@ -89,6 +158,55 @@ export function parseExportFile(text: string): { file: ExportFile; stats: Export
 	return { file, stats };
 }
 
+function parseFilters(f: Record<string, unknown>): ExportFilters {
+	return {
+		handles: Array.isArray(f.handles) ? f.handles.map(String) : undefined,
+		query: typeof f.query === 'string' ? f.query : undefined,
+		updatedSince: typeof f.updatedSince === 'string' ? f.updatedSince : undefined
+	};
+}
+
+function parseDependencies(d: Record<string, unknown>): Record<string, number> {
+	return Object.fromEntries(Object.entries(d).map(([type, count]) => [type, Number(count) || 0]));
+}
+
+function parseDefinition(d: Record<string, unknown>): MetaobjectDefinitionExport {
+	const fieldsVal = Array.isArray(d.fieldDefinitions) ? (d.fieldDefinitions as unknown[]) : [];
+	const fieldDefinitions: FieldDefinitionExport[] = fieldsVal.filter(isRecord).map((f) => ({
+		key: String(f.key ?? ''),
+		name: String(f.name ?? f.key ?? ''),
+		description: typeof f.description === 'string' ? f.description : undefined,
+		type: String(f.type ?? ''),
+		required: Boolean(f.required),
+		validations: (Array.isArray(f.validations) ? (f.validations as unknown[]) : []).filter(isRecord).map((v) => ({ name: String(v.name ?? ''), value: String(v.value ?? '') }))
+	})).filter((f) => f.key && f.type);
+	return {
+		type: normaliseMetaobjectType(String(d.type ?? '')),
+		name: String(d.name ?? d.type ?? ''),
+		description: typeof d.description === 'string' ? d.description : undefined,
+		displayNameKey: typeof d.displayNameKey === 'string' ? d.displayNameKey : undefined,
+		access: isRecord(d.access) ? d.access as MetaobjectDefinitionExport['access'] : undefined,
+		capabilities: isRecord(d.capabilities) ? d.capabilities as MetaobjectDefinitionExport['capabilities'] : undefined,
+		fieldDefinitions
+	};
+}
+
+function parseOwnerMetafieldDefinition(d: Record<string, unknown>): OwnerMetafieldDefinitionExport {
+	return {
+		ownerType: isOwnerType(d.ownerType) ? d.ownerType : 'Product',
+		namespace: normaliseAppNamespace(String(d.namespace ?? '')),
+		key: String(d.key ?? ''),
+		name: String(d.name ?? d.key ?? ''),
+		description: typeof d.description === 'string' ? d.description : undefined,
+		type: String(d.type ?? ''),
+		validations: parseValidations(d.validations)
+	};
+}
+
+function parseValidations(value: unknown): Array<{ name: string; value: string }> {
+	return (Array.isArray(value) ? (value as unknown[]) : []).filter(isRecord).map((v) => ({ name: String(v.name ?? ''), value: String(v.value ?? '') }));
+}
+
 function isRecord(value: unknown): value is Record<string, unknown> {
 	return typeof value === 'object' && value !== null;
 }
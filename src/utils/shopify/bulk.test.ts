@@ -0,0 +1,139 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { CancelledError } from '@utils/shopify/client';
+import { FakeShopifyClient } from '@utils/shopify/fakeClient';
+import { groupBulkRows, runBulkQuery, type BulkOperation, type BulkRow } from '@utils/shopify/bulk';
+import { fetchAllMetaobjectsBulk } from '@utils/shopify/metaobjects';
+
+// Stands in for the storage bucket the result url points at; paths map to JSONL bodies
+const files = new Map<string, BulkRow[]>();
+let server: http.Server;
+let baseUrl: string;
+
+before(async () => {
+	server = http.createServer((req, res) => {
+		if (req.url === '/cut-off.jsonl') {
+			res.writeHead(200, { 'content-type': 'application/jsonl', 'content-length': '1000' });
+			res.write('{"id":"a"}\n{"id":"b"}\n');
+			setTimeout(() => res.destroy(), 10);
+			return;
+		}
+		if (req.url === '/moved') {
+			res.writeHead(302, { location: '/elsewhere' });
+			res.end('{"id":"not-a-row"}\n');
+			return;
+		}
+		const rows = files.get(req.url ?? '');
+		if (!rows) { res.writeHead(404); res.end(); return; }
+		res.writeHead(200, { 'content-type': 'application/jsonl' });
+		res.end(rows.map(r => JSON.stringify(r)).join('\n') + '\n');
+	});
+	await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+	server.closeAllConnections();
+	server.close();
+});
+
+// Answers the run mutation, then each poll with the next operation state; list reference lookups come from `nodes`
+function bulkClient(states: Array<Partial<BulkOperation>>, nodes: Record<string, unknown> = {}): FakeShopifyClient {
+	let poll = 0;
+	return new FakeShopifyClient({
+		BulkOperationRunQuery: () => ({ data: { bulkOperationRunQuery: { bulkOperation: { id: 'gid://shopify/BulkOperation/1', status: 'CREATED' }, userErrors: [] } } }),
+		BulkOperationCancel: ({ variables }) => ({ data: { bulkOperationCancel: { bulkOperation: { id: variables.id, status: 'CANCELING' }, userErrors: [] } } }),
+		BulkOperation: () => {
+			const state = states[Math.min(poll, states.length - 1)];
+			poll += 1;
+			return { data: { node: { id: 'gid://shopify/BulkOperation/1', ...state } } };
+		},
+		ReferenceNodes: ({ variables }) => ({ data: { nodes: (variables.ids as string[]).map(id => nodes[id] ?? null) } }),
+	});
+}
+
+test('polls until the operation completes and streams the result rows in file order', async () => {
+	files.set('/done.jsonl', [{ id: 'a' }, { id: 'b' }, { id: 'c' }]);
+	const client = bulkClient([{ status: 'RUNNING' }, { status: 'RUNNING' }, { status: 'COMPLETED', url: `${baseUrl}/done.jsonl` }]);
+	const statuses: string[] = [];
+	const rows: BulkRow[] = [];
+	const op = await runBulkQuery(client, '{ shop { id } }', row => rows.push(row), { pollMs: 1, onStatus: o => statuses.push(o.status) });
+
+	assert.equal(op.status, 'COMPLETED');
+	assert.deepEqual(statuses, ['CREATED', 'RUNNING', 'RUNNING', 'COMPLETED']);
+	assert.deepEqual(rows.map(r => r.id), ['a', 'b', 'c']);
+});
+
+test('a completed operation without a url matched nothing', async () => {
+	const client = bulkClient([{ status: 'COMPLETED', url: null }]);
+	const rows: BulkRow[] = [];
+	await runBulkQuery(client, '{ shop { id } }', row => rows.push(row), { pollMs: 1 });
+	assert.equal(rows.length, 0);
+});
+
+test('failed and expired operations throw with their status and error code', async () => {
+	const failed = bulkClient([{ status: 'RUNNING' }, { status: 'FAILED', errorCode: 'ACCESS_DENIED' }]);
+	await assert.rejects(runBulkQuery(failed, '{ shop { id } }', () => undefined, { pollMs: 1 }), /Bulk operation failed \(ACCESS_DENIED\)/);
+	const expired = bulkClient([{ status: 'EXPIRED' }]);
+	await assert.rejects(runBulkQuery(expired, '{ shop { id } }', () => undefined, { pollMs: 1 }), /Bulk operation expired/);
+});
+
+test('cancelling while polling cancels the operation on Shopify too', async () => {
+	const client = bulkClient([{ status: 'RUNNING' }]);
+	const controller = new AbortController();
+	await assert.rejects(
+		runBulkQuery(client, '{ shop { id } }', () => undefined, { pollMs: 1_000, signal: controller.signal, onStatus: o => { if (o.status === 'CREATED') setTimeout(() => controller.abort(), 5); } }),
+		CancelledError
+	);
+	assert.deepEqual(client.calls('BulkOperationCancel').map(r => r.variables.id), ['gid://shopify/BulkOperation/1']);
+});
+
+test('a result url that does not answer 200 is an error, not rows', async () => {
+	for (const path of ['/moved', '/missing.jsonl']) {
+		const client = bulkClient([{ status: 'COMPLETED', url: `${baseUrl}${path}` }]);
+		const rows: BulkRow[] = [];
+		await assert.rejects(runBulkQuery(client, '{ shop { id } }', row => rows.push(row), { pollMs: 1 }), /HTTP (302|404)/);
+		assert.equal(rows.length, 0);
+	}
+});
+
+test('a download cut off mid-body is an error, not a short result', async () => {
+	const client = bulkClient([{ status: 'COMPLETED', url: `${baseUrl}/cut-off.jsonl` }]);
+	const rows: BulkRow[] = [];
+	await assert.rejects(runBulkQuery(client, '{ shop { id } }', row => rows.push(row), { pollMs: 1 }), /closed before the end of the file/);
+	assert.deepEqual(rows.map(r => r.id), ['a', 'b']);
+});
+
+test('child rows are grouped under their parent wherever they appear in the file', () => {
+	const grouped = groupBulkRows([
+		{ key: 'early', __parentId: 'b' },
+		{ id: 'a' },
+		{ key: 'a1', __parentId: 'a' },
+		{ id: 'b' },
+		{ key: 'a2', __parentId: 'a' },
+		{ key: 'b1', __parentId: 'b' },
+		{ key: 'orphan', __parentId: 'zzz' },
+	]);
+	assert.deepEqual(grouped.map(g => [g.row.id, g.children.map(c => c.key)]), [['a', ['a1', 'a2']], ['b', ['early', 'b1']]]);
+});
+
+test('bulk metaobject fetch resolves list references in value order and attaches out-of-order back references', async () => {
+	const field = (key: string, type: string, value: string | null) => ({ key, type, value, jsonValue: null, reference: null });
+	files.set('/recipes.jsonl', [
+		{ id: 'gid://shopify/Metaobject/1', handle: 'soup', type: 'recipe', fields: [field('ingredients', 'list.metaobject_reference', JSON.stringify(['gid://shopify/Metaobject/12', 'gid://shopify/Metaobject/11', 'gid://shopify/Metaobject/404'])), field('title', 'single_line_text_field', 'Soup')] },
+		{ namespace: 'custom', key: 'recipe', referencer: { __typename: 'Product', id: 'gid://shopify/Product/9', handle: 'pot' }, __parentId: 'gid://shopify/Metaobject/2' },
+		{ id: 'gid://shopify/Metaobject/2', handle: 'salad', type: 'recipe', fields: [field('ingredients', 'list.metaobject_reference', null)] },
+	]);
+	const client = bulkClient([{ status: 'COMPLETED', url: `${baseUrl}/recipes.jsonl` }], {
+		'gid://shopify/Metaobject/11': { __typename: 'Metaobject', id: 'gid://shopify/Metaobject/11', handle: 'salt', type: 'ingredient' },
+		'gid://shopify/Metaobject/12': { __typename: 'Metaobject', id: 'gid://shopify/Metaobject/12', handle: 'leek', type: 'ingredient' },
+	});
+	const nodes = await fetchAllMetaobjectsBulk(client, 'recipe', undefined, { includeBackReferences: true, pollMs: 1 });
+
+	assert.deepEqual(nodes[0].fields[0].references?.nodes.map(n => n.handle), ['leek', 'salt']);
+	assert.deepEqual(nodes[1].fields[0].references?.nodes, []);
+	assert.deepEqual(nodes[1].referencedBy?.edges.map(e => e.node.referencer.id), ['gid://shopify/Product/9']);
+	assert.equal(client.calls('ReferenceNodes').length, 1);
+});
@@ -0,0 +1,133 @@
+import http from 'node:http';
+import https from 'node:https';
+import readline from 'node:readline';
+import { CancelledError, ShopifyGraphQLClient } from '@utils/shopify/client';
+
+const MUTATION_BULK_RUN_QUERY = `mutation BulkOperationRunQuery($query: String!) {
+  bulkOperationRunQuery(query: $query) {
+    bulkOperation { id status }
+    userErrors { field message code }
+  }
+}`;
+
+const QUERY_BULK_OPERATION = `query BulkOperation($id: ID!) {
+  node(id: $id) {
+    ... on BulkOperation { id status errorCode objectCount url partialDataUrl }
+  }
+}`;
+
+const MUTATION_BULK_CANCEL = `mutation BulkOperationCancel($id: ID!) {
+  bulkOperationCancel(id: $id) {
+    bulkOperation { id status }
+    userErrors { field message }
+  }
+}`;
+
+export type BulkOperationStatus = 'CREATED' | 'RUNNING' | 'COMPLETED' | 'CANCELING' | 'CANCELED' | 'FAILED' | 'EXPIRED';
+
+export type BulkOperation = {
+	id: string;
+	status: BulkOperationStatus;
+	errorCode?: string | null;
+	objectCount?: string | null; // UnsignedInt64, serialised as a string
+	url?: string | null;
+	partialDataUrl?: string | null;
+};
+
+// One JSONL row; rows of nested connections carry the id of the row they belong to
+export type BulkRow = Record<string, unknown> & { id?: string; __parentId?: string };
+
+export type BulkQueryOptions = {
+	onStatus?: (op: BulkOperation) => void;
+	pollMs?: number; // default 2000
+	signal?: AbortSignal;
+};
+
+// Submits a bulk query, polls until it finishes and streams the result rows to onRow in file order.
+// Cancelling asks Shopify to cancel the operation too, then throws CancelledError.
+export async function runBulkQuery(client: ShopifyGraphQLClient, query: string, onRow: (row: BulkRow) => void, opts: BulkQueryOptions = {}): Promise<BulkOperation> {
+	const res = await client.request<{ bulkOperationRunQuery: { bulkOperation?: { id: string; status: BulkOperationStatus } | null; userErrors: Array<{ field?: string[]; message: string; code?: string }> } }>(MUTATION_BULK_RUN_QUERY, { query }, { signal: opts.signal });
+	const userErrors = res.data?.bulkOperationRunQuery.userErrors ?? (res.errors ?? []).map(e => ({ message: e.message }));
+	const started = res.data?.bulkOperationRunQuery.bulkOperation;
+	if (!started || userErrors.length > 0) throw new Error(`Bulk operation was not started: ${userErrors.map(u => u.message).join('; ') || 'no operation returned'}`);
+
+	let op: BulkOperation = started;
+	opts.onStatus?.(op);
+	try {
+		while (op.status === 'CREATED' || op.status === 'RUNNING' || op.status === 'CANCELING') {
+			await wait(opts.pollMs ?? 2000, opts.signal);
+			const poll = await client.request<{ node: BulkOperation | null }>(QUERY_BULK_OPERATION, { id: op.id }, { signal: opts.signal });
+			if (!poll.data?.node) throw new Error(`Bulk operation ${op.id} not found: ${(poll.errors ?? []).map(e => e.message).join('; ')}`);
+			op = poll.data.node;
+			opts.onStatus?.(op);
+		}
+	} catch (err) {
+		if (err instanceof CancelledError) await client.request(MUTATION_BULK_CANCEL, { id: op.id }).catch(() => undefined);
+		throw err;
+	}
+
+	if (op.status !== 'COMPLETED') throw new Error(`Bulk operation ${op.status.toLowerCase()}${op.errorCode ? ` (${op.errorCode})` : ''}`);
+	// No url means the query matched nothing
+	if (op.url) await downloadJsonl(op.url, onRow, opts.signal);
+	if (opts.signal?.aborted) throw new CancelledError();
+	return op;
+}
+
+// Groups child rows under their parent row. Children are attached in a second pass so their place in the
+// file doesn't matter; Shopify writes parents first but doesn't promise it
+export function groupBulkRows(rows: BulkRow[]): Array<{ row: BulkRow; children: BulkRow[] }> {
+	const byId = new Map<string, { row: BulkRow; children: BulkRow[] }>();
+	const roots: Array<{ row: BulkRow; children: BulkRow[] }> = [];
+	for (const row of rows) {
+		if (row.__parentId) continue;
+		const item = { row, children: [] };
+		roots.push(item);
+		if (row.id) byId.set(row.id, item);
+	}
+	for (const row of rows) {
+		if (row.__parentId) byId.get(row.__parentId)?.children.push(row);
+	}
+	return roots;
+}
+
+// Result urls are https; plain http is accepted so a local stub server can stand in for storage
+function downloadJsonl(url: string, onRow: (row: BulkRow) => void, signal?: AbortSignal): Promise<void> {
+	const get = url.startsWith('http:') ? http.get : https.get;
+	return new Promise((resolve, reject) => {
+		const req = get(url, { signal }, (res) => {
+			// Redirects and other non-200 bodies are not the result file
+			if (res.statusCode !== 200) {
+				res.resume();
+				reject(new Error(`Downloading the bulk operation result failed: HTTP ${res.statusCode}`));
+				return;
+			}
+			// A dropped connection ends the stream early; a short file must not pass for the whole result
+			const cutOff = () => reject(signal?.aborted ? new CancelledError() : new Error('Downloading the bulk operation result failed: the connection closed before the end of the file'));
+			res.on('aborted', cutOff);
+			const lines = readline.createInterface({ input: res, crlfDelay: Infinity });
+			lines.on('line', (line) => {
+				if (!line.trim()) return;
+				try {
+					onRow(JSON.parse(line) as BulkRow);
+				} catch (err) {
+					lines.close();
+					res.destroy();
+					reject(err);
+				}
+			});
+			lines.on('close', () => (res.complete ? resolve() : cutOff()));
+			// readline re-emits errors of its input
+			lines.on('error', (err) => reject(signal?.aborted ? new CancelledError() : err));
+		});
+		req.on('error', (err) => reject(signal?.aborted ? new CancelledError() : err));
+	});
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) { reject(new CancelledError()); return; }
+		const onAbort = () => { clearTimeout(timer); reject(new CancelledError()); };
+		const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
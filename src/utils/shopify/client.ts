@@ -7,8 +7,35 @@ export type ShopifyClientOptions = {
 	maxRetries?: number; // default 5
 	minDelayMs?: number; // default 250
 	maxDelayMs?: number; // default 4000
+	onThrottleStatus?: (status: ThrottleStatus) => void;
 };
 
+// Leaky-bucket state reported in extensions.cost.throttleStatus
+export type ThrottleStatus = {
+	maximumAvailable: number;
+	currentlyAvailable: number;
+	restoreRate: number; // points per second
+};
+
+type QueryCost = {
+	requestedQueryCost?: number;
+	actualQueryCost?: number | null;
+	throttleStatus?: ThrottleStatus;
+};
+
+export type RequestOptions = {
+	// Aborts throttle/retry waits and the in-flight HTTP request
+	signal?: AbortSignal;
+};
+
+// Thrown when a request or a runner stops because its AbortSignal fired
+export class CancelledError extends Error {
+	constructor(message = 'Cancelled') {
+		super(message);
+		this.name = 'CancelledError';
+	}
+}
+
 export type GraphQLResponse<T> = { data?: T; errors?: Array<{ message: string; extensions?: unknown }>; extensions?: unknown };
 
 export class ShopifyGraphQLClient {
@@ -18,6 +45,11 @@ export class ShopifyGraphQLClient {
 	private readonly maxRetries: number;
 	private readonly minDelayMs: number;
 	private readonly maxDelayMs: number;
+	private readonly onThrottleStatus?: (status: ThrottleStatus) => void;
+	// Last known bucket, refilled locally by restoreRate between responses
+	private bucket?: ThrottleStatus & { at: number };
+	// Requested cost seen per query text, used to estimate the next call before sending it
+	private readonly costByQuery = new Map<string, number>();
 
 	constructor(opts: ShopifyClientOptions) {
 		this.domain = opts.domain;
@@ -26,24 +58,34 @@ export class ShopifyGraphQLClient {
 		this.maxRetries = opts.maxRetries ?? 5;
 		this.minDelayMs = opts.minDelayMs ?? 250;
 		this.maxDelayMs = opts.maxDelayMs ?? 4000;
+		this.onThrottleStatus = opts.onThrottleStatus;
 	}
 
-	async request<T>(query: string, variables?: Record<string, unknown>): Promise<GraphQLResponse<T>> {
+	// Estimated points available right now, or undefined before the first response
+	getThrottleStatus(): ThrottleStatus | undefined {
+		if (!this.bucket) return undefined;
+		return { maximumAvailable: this.bucket.maximumAvailable, currentlyAvailable: this.availableNow(), restoreRate: this.bucket.restoreRate };
+	}
+
+	async request<T>(query: string, variables?: Record<string, unknown>, opts: RequestOptions = {}): Promise<GraphQLResponse<T>> {
 		let attempt = 0;
 		 
 		while (true) {
 			try {
+				if (opts.signal?.aborted) throw new CancelledError();
+				await this.waitForBudget(query, opts.signal);
 				const body = JSON.stringify({ query, variables });
-				const res = await this.post(body);
+				const res = await this.post(body, opts.signal);
 				const status = res.statusCode ?? 0;
 				const text = res.body;
 				if (status === 429 || status >= 500) {
 					throw new RetryableError(`HTTP ${status}`);
 				}
 				const json = JSON.parse(text) as GraphQLResponse<T>;
+				const cost = this.recordCost(query, json);
 				const throttled = Array.isArray(json.errors) && json.errors.some((e) => (e?.extensions as { code?: string } | undefined)?.code === 'THROTTLED');
 				if (throttled) {
-					throw new RetryableError('GraphQL throttled');
+					throw new RetryableError('GraphQL throttled', this.refillDelay(cost?.requestedQueryCost ?? 0));
 				}
 				return json;
 			} catch (err) {
@@ -51,21 +93,56 @@ export class ShopifyGraphQLClient {
 					throw err;
 				}
 				attempt += 1;
-				const delay = this.backoffWithJitter(attempt);
-				await new Promise((r) => setTimeout(r, delay));
+				const delay = err.delayMs ?? this.backoffWithJitter(attempt);
+				await sleep(delay, opts.signal);
 			}
 		}
 	}
 
+	private availableNow(): number {
+		if (!this.bucket) return Infinity;
+		const refilled = this.bucket.currentlyAvailable + ((Date.now() - this.bucket.at) / 1000) * this.bucket.restoreRate;
+		return Math.min(this.bucket.maximumAvailable, refilled);
+	}
+
+	// Milliseconds until the bucket holds `cost` points; undefined when nothing is known yet
+	private refillDelay(cost: number): number | undefined {
+		if (!this.bucket || this.bucket.restoreRate <= 0) return undefined;
+		const missing = Math.min(cost, this.bucket.maximumAvailable) - this.availableNow();
+		return missing > 0 ? Math.ceil((missing / this.bucket.restoreRate) * 1000) : 0;
+	}
+
+	// Pace requests so they don't hit THROTTLED; points are reserved before waiting so concurrent calls queue up behind each other
+	private async waitForBudget(query: string, signal?: AbortSignal): Promise<void> {
+		if (!this.bucket || this.bucket.restoreRate <= 0) return;
+		const cost = Math.min(this.costByQuery.get(query) ?? 0, this.bucket.maximumAvailable);
+		const remaining = this.availableNow() - cost;
+		this.bucket = { ...this.bucket, currentlyAvailable: remaining, at: Date.now() };
+		if (remaining < 0) await sleep(Math.ceil((-remaining / this.bucket.restoreRate) * 1000), signal);
+	}
+
+	private recordCost(query: string, json: GraphQLResponse<unknown>): QueryCost | undefined {
+		const cost = (json.extensions as { cost?: QueryCost } | undefined)?.cost;
+		if (!cost) return undefined;
+		if (typeof cost.requestedQueryCost === 'number') this.costByQuery.set(query, cost.requestedQueryCost);
+		const t = cost.throttleStatus;
+		if (t && typeof t.currentlyAvailable === 'number') {
+			this.bucket = { maximumAvailable: t.maximumAvailable, currentlyAvailable: t.currentlyAvailable, restoreRate: t.restoreRate, at: Date.now() };
+			this.onThrottleStatus?.({ maximumAvailable: t.maximumAvailable, currentlyAvailable: t.currentlyAvailable, restoreRate: t.restoreRate });
+		}
+		return cost;
+	}
+
 	private backoffWithJitter(attempt: number): number {
 		const base = Math.min(this.maxDelayMs, this.minDelayMs * 2 ** (attempt - 1));
 		const jitter = Math.random() * this.minDelayMs;
 		return Math.min(this.maxDelayMs, base + jitter);
 	}
 
-	private post(body: string): Promise<{ statusCode?: number; body: string }> {
+	private post(body: string, signal?: AbortSignal): Promise<{ statusCode?: number; body: string }> {
 		const options: https.RequestOptions = {
 			method: 'POST',
+			signal,
 			hostname: this.domain,
 			path: `/admin/api/${this.apiVersion}/graphql.json`,
 			headers: {
@@ -83,11 +160,24 @@ export class ShopifyGraphQLClient {
 					resolve({ statusCode: res.statusCode, body: text });
 				});
 			});
-			req.on('error', reject);
+			req.on('error', (err) => reject(signal?.aborted ? new CancelledError() : err));
 			req.write(body);
 			req.end();
 		});
 	}
 }
 
-class RetryableError extends Error {} 
\ No newline at end of file
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) { reject(new CancelledError()); return; }
+		const onAbort = () => { clearTimeout(timer); reject(new CancelledError()); };
+		const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
+
+class RetryableError extends Error {
+	constructor(message: string, readonly delayMs?: number) {
+		super(message);
+	}
+} 
\ No newline at end of file
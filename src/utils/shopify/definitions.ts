@@ -0,0 +1,372 @@
+import { ShopifyGraphQLClient, type GraphQLResponse } from '@utils/shopify/client';
+import { normaliseAppNamespace, normaliseMetaobjectType, type BackReference, type FieldDefinitionExport, type MetaobjectDefinitionExport, type OwnerMetafieldDefinitionExport } from '@utils/schema';
+import { createOwnerMetafieldDefinition, fetchOwnerMetafieldDefinitions, metafieldOwnerTypeForResource } from '@utils/shopify/metafields';
+
+const DEFINITION_FIELDS = `
+    id
+    type
+    name
+    description
+    displayNameKey
+    access { admin storefront }
+    capabilities {
+      publishable { enabled }
+      translatable { enabled }
+      renderable { enabled data { metaTitleKey metaDescriptionKey } }
+      onlineStore { enabled data { urlHandle canCreateRedirects } }
+    }
+    fieldDefinitions {
+      key
+      name
+      description
+      required
+      type { name }
+      validations { name value }
+    }`;
+
+const Q_DEFINITION_BY_TYPE = `query MetaobjectDefinitionByType($type: String!) {
+  metaobjectDefinitionByType(type: $type) {${DEFINITION_FIELDS}
+  }
+}`;
+
+const Q_DEFINITION_TYPE_BY_ID = `query MetaobjectDefinitionTypeById($id: ID!) { metaobjectDefinition(id: $id) { id type } }`;
+
+const Q_DEFINITIONS = `query MetaobjectDefinitions($first: Int!, $after: String) {
+  metaobjectDefinitions(first: $first, after: $after) {
+    pageInfo { hasNextPage endCursor }
+    nodes { type name metaobjectsCount }
+  }
+}`;
+
+const MUTATION_DEFINITION_CREATE = `mutation MetaobjectDefinitionCreate($definition: MetaobjectDefinitionCreateInput!) {
+  metaobjectDefinitionCreate(definition: $definition) {
+    metaobjectDefinition { id type }
+    userErrors { field message code }
+  }
+}`;
+
+const MUTATION_DEFINITION_UPDATE = `mutation MetaobjectDefinitionUpdate($id: ID!, $definition: MetaobjectDefinitionUpdateInput!) {
+  metaobjectDefinitionUpdate(id: $id, definition: $definition) {
+    metaobjectDefinition { id type }
+    userErrors { field message code }
+  }
+}`;
+
+// Validations holding metaobject definition ids are exported as type refs so they survive a store change
+const DEFINITION_REF_PREFIX = 'handle://shopify/MetaobjectDefinition/';
+const DEFINITION_ID_VALIDATIONS = ['metaobject_definition_id', 'metaobject_definition_ids'];
+
+type UserError = { field?: string[]; message: string; code?: string };
+
+type DefinitionNode = {
+	id: string;
+	type: string;
+	name: string;
+	description?: string | null;
+	displayNameKey?: string | null;
+	access?: { admin?: string | null; storefront?: string | null } | null;
+	capabilities?: {
+		publishable?: { enabled: boolean } | null;
+		translatable?: { enabled: boolean } | null;
+		renderable?: { enabled: boolean; data?: { metaTitleKey?: string | null; metaDescriptionKey?: string | null } | null } | null;
+		onlineStore?: { enabled: boolean; data?: { urlHandle?: string | null; canCreateRedirects?: boolean | null } | null } | null;
+	} | null;
+	fieldDefinitions: Array<{ key: string; name: string; description?: string | null; required: boolean; type: { name: string }; validations: Array<{ name: string; value?: string | null }> }>;
+};
+
+export async function fetchDefinitionNode(client: ShopifyGraphQLClient, type: string): Promise<DefinitionNode | null> {
+	const res = await client.request<{ metaobjectDefinitionByType: DefinitionNode | null }>(Q_DEFINITION_BY_TYPE, { type });
+	if (res.errors && res.errors.length > 0) {
+		throw new Error(`Failed to fetch definition for ${type}: ${res.errors.map(e => e.message).join('; ')}`);
+	}
+	return res.data?.metaobjectDefinitionByType ?? null;
+}
+
+export type MetaobjectDefinitionSummary = { type: string; name: string; entryCount: number };
+
+// Every metaobject definition in the store, for picking types to export; app types come back as $app:
+export async function listMetaobjectDefinitions(client: ShopifyGraphQLClient, signal?: AbortSignal): Promise<MetaobjectDefinitionSummary[]> {
+	const out: MetaobjectDefinitionSummary[] = [];
+	let after: string | undefined = undefined;
+	while (true) {
+		const res: GraphQLResponse<{ metaobjectDefinitions: { pageInfo: { hasNextPage: boolean; endCursor?: string }; nodes: Array<{ type: string; name: string; metaobjectsCount: number }> } }> = await client.request(Q_DEFINITIONS, { first: 250, after }, { signal });
+		if (res.errors && res.errors.length > 0) {
+			throw new Error(`Failed to list metaobject definitions: ${res.errors.map(e => e.message).join('; ')}`);
+		}
+		const page = res.data?.metaobjectDefinitions;
+		if (!page) break;
+		for (const n of page.nodes) out.push({ type: normaliseMetaobjectType(n.type), name: n.name, entryCount: n.metaobjectsCount });
+		if (!page.pageInfo.hasNextPage) break;
+		after = page.pageInfo.endCursor ?? undefined;
+	}
+	return out.sort((a, b) => a.type.localeCompare(b.type));
+}
+
+export async function fetchMetaobjectDefinitionForExport(client: ShopifyGraphQLClient, type: string, typeByIdCache: Map<string, string | null> = new Map()): Promise<MetaobjectDefinitionExport | undefined> {
+	const node = await fetchDefinitionNode(client, type);
+	if (!node) return undefined;
+
+	const fieldDefinitions: FieldDefinitionExport[] = [];
+	for (const f of node.fieldDefinitions) {
+		const validations = await exportValidations(client, f.validations, typeByIdCache);
+		fieldDefinitions.push({
+			key: f.key,
+			name: f.name,
+			description: f.description ?? undefined,
+			type: f.type.name,
+			required: f.required,
+			validations
+		});
+	}
+
+	const caps = node.capabilities;
+	return {
+		type: normaliseMetaobjectType(node.type),
+		name: node.name,
+		description: node.description ?? undefined,
+		displayNameKey: node.displayNameKey ?? undefined,
+		access: node.access ? { admin: node.access.admin ?? undefined, storefront: node.access.storefront ?? undefined } : undefined,
+		capabilities: caps ? {
+			publishable: caps.publishable ? { enabled: caps.publishable.enabled } : undefined,
+			translatable: caps.translatable ? { enabled: caps.translatable.enabled } : undefined,
+			renderable: caps.renderable ? {
+				enabled: caps.renderable.enabled,
+				data: caps.renderable.data ? { metaTitleKey: caps.renderable.data.metaTitleKey ?? undefined, metaDescriptionKey: caps.renderable.data.metaDescriptionKey ?? undefined } : undefined
+			} : undefined,
+			onlineStore: caps.onlineStore ? {
+				enabled: caps.onlineStore.enabled,
+				data: caps.onlineStore.data ? { urlHandle: caps.onlineStore.data.urlHandle ?? undefined, createRedirects: caps.onlineStore.data.canCreateRedirects ?? undefined } : undefined
+			} : undefined
+		} : undefined,
+		fieldDefinitions
+	};
+}
+
+// Replace metaobject definition ids in validations with type refs that can be resolved in another store
+export async function exportValidations(client: ShopifyGraphQLClient, validations: Array<{ name: string; value?: string | null }>, typeByIdCache: Map<string, string | null> = new Map()): Promise<FieldDefinitionExport['validations']> {
+	const typeForId = async (id: string): Promise<string | null> => {
+		if (typeByIdCache.has(id)) return typeByIdCache.get(id)!;
+		const res = await client.request<{ metaobjectDefinition: { id: string; type: string } | null }>(Q_DEFINITION_TYPE_BY_ID, { id });
+		const t = res.data?.metaobjectDefinition?.type ? normaliseMetaobjectType(res.data.metaobjectDefinition.type) : null;
+		typeByIdCache.set(id, t);
+		return t;
+	};
+
+	const out: FieldDefinitionExport['validations'] = [];
+	for (const v of validations) {
+		const value = v.value ?? '';
+		if (!DEFINITION_ID_VALIDATIONS.includes(v.name)) {
+			out.push({ name: v.name, value });
+			continue;
+		}
+		const ids = v.name === 'metaobject_definition_ids' ? parseIdList(value) : [value];
+		const refs: string[] = [];
+		for (const id of ids) {
+			const t = await typeForId(id);
+			refs.push(t ? `${DEFINITION_REF_PREFIX}${t}` : id);
+		}
+		out.push({ name: v.name, value: v.name === 'metaobject_definition_ids' ? JSON.stringify(refs) : refs[0] ?? '' });
+	}
+	return out;
+}
+
+// Inverse of exportValidations; types that can't be found in the target store are reported as unresolved
+export async function importValidations(validations: FieldDefinitionExport['validations'], resolveType: (type: string) => Promise<string | null>): Promise<{ validations: FieldDefinitionExport['validations']; unresolved: string[] }> {
+	const unresolved: string[] = [];
+	const mapRef = async (value: string): Promise<string> => {
+		if (!value.startsWith(DEFINITION_REF_PREFIX)) return value;
+		const t = value.slice(DEFINITION_REF_PREFIX.length);
+		const id = await resolveType(t);
+		if (!id) unresolved.push(t);
+		return id ?? value;
+	};
+	const out: FieldDefinitionExport['validations'] = [];
+	for (const v of validations) {
+		if (v.name === 'metaobject_definition_id') out.push({ name: v.name, value: await mapRef(v.value) });
+		else if (v.name === 'metaobject_definition_ids') {
+			const ids: string[] = [];
+			for (const value of parseIdList(v.value)) ids.push(await mapRef(value));
+			out.push({ name: v.name, value: JSON.stringify(ids) });
+		} else out.push(v);
+	}
+	return { validations: out, unresolved };
+}
+
+export function definitionDependencies(def: MetaobjectDefinitionExport): string[] {
+	const deps = new Set<string>();
+	for (const f of def.fieldDefinitions) {
+		for (const v of f.validations) {
+			if (!DEFINITION_ID_VALIDATIONS.includes(v.name)) continue;
+			const values = v.name === 'metaobject_definition_ids' ? parseIdList(v.value) : [v.value];
+			for (const value of values) {
+				if (value.startsWith(DEFINITION_REF_PREFIX)) deps.add(value.slice(DEFINITION_REF_PREFIX.length));
+			}
+		}
+	}
+	return Array.from(deps);
+}
+
+export type EnsureDefinitionResult = {
+	id?: string;
+	action: 'created' | 'updated';
+	userErrors: UserError[];
+};
+
+// Create the definition in the target store, or update the existing one to match the export (field types are never changed)
+export async function ensureMetaobjectDefinition(client: ShopifyGraphQLClient, def: MetaobjectDefinitionExport): Promise<EnsureDefinitionResult> {
+	const existing = await fetchDefinitionNode(client, def.type);
+	const ownIdRef = { id: existing?.id };
+	const idByType = new Map<string, string | null>();
+	const resolveType = async (t: string): Promise<string | null> => {
+		if (t === def.type && ownIdRef.id) return ownIdRef.id;
+		if (idByType.has(t)) return idByType.get(t)!;
+		const node = await fetchDefinitionNode(client, t);
+		idByType.set(t, node?.id ?? null);
+		return node?.id ?? null;
+	};
+
+	const errors: UserError[] = [];
+	const resolved: FieldDefinitionExport[] = [];
+	// Fields referencing the definition itself can only be added once it exists
+	const deferred: FieldDefinitionExport[] = [];
+	for (const f of def.fieldDefinitions) {
+		const { field, unresolved } = await resolveFieldValidations(f, resolveType);
+		if (unresolved.length === 0) { resolved.push(field); continue; }
+		if (!existing && unresolved.every(t => t === def.type)) { deferred.push(f); continue; }
+		errors.push({ field: ['fieldDefinitions', f.key], message: `Field ${f.key} references unknown metaobject type ${unresolved.join(', ')}` });
+	}
+	if (errors.length > 0) return { id: existing?.id, action: existing ? 'updated' : 'created', userErrors: errors };
+
+	if (!existing) {
+		const res = await client.request<{ metaobjectDefinitionCreate: { metaobjectDefinition?: { id: string } | null; userErrors: UserError[] } }>(MUTATION_DEFINITION_CREATE, {
+			definition: {
+				type: def.type,
+				name: def.name,
+				description: def.description,
+				displayNameKey: deferred.some(f => f.key === def.displayNameKey) ? undefined : def.displayNameKey,
+				access: toAccessInput(def.access),
+				capabilities: toCapabilitiesInput(def.capabilities),
+				fieldDefinitions: resolved.map(toFieldCreateInput)
+			}
+		});
+		const id = res.data?.metaobjectDefinitionCreate.metaobjectDefinition?.id;
+		const userErrors = res.data?.metaobjectDefinitionCreate.userErrors ?? (res.errors ?? []).map(e => ({ message: e.message }));
+		if (!id || userErrors.length > 0 || deferred.length === 0) return { id, action: 'created', userErrors };
+
+		ownIdRef.id = id;
+		const followUp: FieldDefinitionExport[] = [];
+		for (const f of deferred) followUp.push((await resolveFieldValidations(f, resolveType)).field);
+		const upd = await updateDefinition(client, id, { displayNameKey: def.displayNameKey, fieldDefinitions: followUp.map(f => ({ create: toFieldCreateInput(f) })) });
+		return { id, action: 'created', userErrors: upd };
+	}
+
+	const existingTypes = new Map(existing.fieldDefinitions.map(f => [f.key, f.type.name]));
+	const operations: Array<Record<string, unknown>> = [];
+	for (const f of resolved) {
+		const currentType = existingTypes.get(f.key);
+		if (!currentType) { operations.push({ create: toFieldCreateInput(f) }); continue; }
+		if (currentType !== f.type) {
+			errors.push({ field: ['fieldDefinitions', f.key], message: `Field ${f.key} is ${currentType} in the target store but ${f.type} in the export` });
+			continue;
+		}
+		operations.push({ update: { key: f.key, name: f.name, description: f.description, required: f.required, validations: f.validations } });
+	}
+	const userErrors = await updateDefinition(client, existing.id, {
+		name: def.name,
+		description: def.description,
+		displayNameKey: def.displayNameKey,
+		access: toAccessInput(def.access),
+		capabilities: toCapabilitiesInput(def.capabilities),
+		fieldDefinitions: operations
+	});
+	return { id: existing.id, action: 'updated', userErrors: errors.concat(userErrors) };
+}
+
+// Owner metafield definitions behind the exported back references; keys without a definition in the source store are returned in missing
+export async function fetchOwnerMetafieldDefinitionsForExport(client: ShopifyGraphQLClient, backReferences: BackReference[], typeByIdCache: Map<string, string | null> = new Map()): Promise<{ definitions: OwnerMetafieldDefinitionExport[]; missing: string[] }> {
+	const unique = new Map<string, BackReference>();
+	for (const br of backReferences) unique.set(`${br.ownerType}:${br.namespace}:${br.key}`, br);
+	const definitions: OwnerMetafieldDefinitionExport[] = [];
+	const missing: string[] = [];
+	for (const br of unique.values()) {
+		const ownerType = metafieldOwnerTypeForResource(br.ownerType);
+		if (!ownerType) continue;
+		const found = await fetchOwnerMetafieldDefinitions(client, [{ ownerType, namespace: br.namespace, key: br.key }]);
+		const d = found.get(`${ownerType}:${br.namespace}:${br.key}`) ?? null;
+		if (!d) { missing.push(`${br.ownerType} ${br.namespace}.${br.key}`); continue; }
+		definitions.push({
+			ownerType: br.ownerType,
+			namespace: normaliseAppNamespace(br.namespace),
+			key: br.key,
+			name: d.name,
+			description: d.description ?? undefined,
+			type: d.type,
+			validations: await exportValidations(client, d.validations, typeByIdCache)
+		});
+	}
+	return { definitions, missing };
+}
+
+export type EnsureOwnerDefinitionResult = {
+	id?: string;
+	action: 'created' | 'existing';
+	userErrors: UserError[];
+};
+
+// Create the owner metafield definition when the target store has none; existing definitions are left untouched
+export async function ensureOwnerMetafieldDefinition(client: ShopifyGraphQLClient, def: OwnerMetafieldDefinitionExport): Promise<EnsureOwnerDefinitionResult> {
+	const ownerType = metafieldOwnerTypeForResource(def.ownerType);
+	if (!ownerType) return { action: 'created', userErrors: [{ message: `Unsupported owner type ${def.ownerType}` }] };
+	const existing = (await fetchOwnerMetafieldDefinitions(client, [{ ownerType, namespace: def.namespace, key: def.key }])).get(`${ownerType}:${def.namespace}:${def.key}`) ?? null;
+	if (existing) return { id: existing.id, action: 'existing', userErrors: [] };
+
+	const { validations, unresolved } = await importValidations(def.validations, async (t) => (await fetchDefinitionNode(client, t))?.id ?? null);
+	if (unresolved.length > 0) {
+		return { action: 'created', userErrors: [{ field: ['validations'], message: `${def.namespace}.${def.key} references unknown metaobject type ${unresolved.join(', ')}` }] };
+	}
+	const res = await createOwnerMetafieldDefinition(client, { ownerType, namespace: def.namespace, key: def.key, name: def.name, description: def.description, type: def.type, validations });
+	return { id: res.id, action: 'created', userErrors: res.userErrors };
+}
+
+async function updateDefinition(client: ShopifyGraphQLClient, id: string, definition: Record<string, unknown>): Promise<UserError[]> {
+	const res = await client.request<{ metaobjectDefinitionUpdate: { userErrors: UserError[] } }>(MUTATION_DEFINITION_UPDATE, { id, definition });
+	return res.data?.metaobjectDefinitionUpdate.userErrors ?? (res.errors ?? []).map(e => ({ message: e.message }));
+}
+
+async function resolveFieldValidations(f: FieldDefinitionExport, resolveType: (type: string) => Promise<string | null>): Promise<{ field: FieldDefinitionExport; unresolved: string[] }> {
+	const { validations, unresolved } = await importValidations(f.validations, resolveType);
+	return { field: { ...f, validations }, unresolved };
+}
+
+function toFieldCreateInput(f: FieldDefinitionExport) {
+	return { key: f.key, name: f.name, description: f.description, type: f.type, required: f.required, validations: f.validations };
+}
+
+function toAccessInput(access: MetaobjectDefinitionExport['access']) {
+	if (!access) return undefined;
+	// Merchant-owned admin access is the only value accepted on input for non-app types
+	const admin = access.admin && access.admin.startsWith('MERCHANT_') ? access.admin : undefined;
+	return { admin, storefront: access.storefront };
+}
+
+function toCapabilitiesInput(caps: MetaobjectDefinitionExport['capabilities']) {
+	if (!caps) return undefined;
+	return {
+		publishable: caps.publishable,
+		translatable: caps.translatable,
+		renderable: caps.renderable,
+		onlineStore: caps.onlineStore ? {
+			enabled: caps.onlineStore.enabled,
+			data: caps.onlineStore.enabled && caps.onlineStore.data ? { urlHandle: caps.onlineStore.data.urlHandle, createRedirects: caps.onlineStore.data.createRedirects } : undefined
+		} : undefined
+	};
+}
+
+function parseIdList(value: string): string[] {
+	try {
+		const parsed = JSON.parse(value) as unknown;
+		return Array.isArray(parsed) ? parsed.map(String) : [value];
+	} catch {
+		return [value];
+	}
+}
@@ -1,9 +1,20 @@
-import { ShopifyGraphQLClient } from '@utils/shopify/client';
+import fs from 'node:fs';
+import dotenv from 'dotenv';
+import { ShopifyGraphQLClient, type ShopifyClientOptions } from '@utils/shopify/client';
 
-export function createShopifyClientFromEnv(): ShopifyGraphQLClient {
-	const domain = process.env.SHOPIFY_STORE_DOMAIN;
-	const token = process.env.SHOPIFY_ADMIN_API_TOKEN ?? process.env.SHOPIFY_ADMIN_API_ACCESS_TOKEN;
-	if (!domain) throw new Error('Missing SHOPIFY_STORE_DOMAIN in environment');
-	if (!token) throw new Error('Missing SHOPIFY_ADMIN_API_TOKEN in environment');
-	return new ShopifyGraphQLClient({ domain, token, apiVersion: '2025-07' });
-} 
\ No newline at end of file
+export function createShopifyClientFromEnv(opts: Pick<ShopifyClientOptions, 'onThrottleStatus'> = {}): ShopifyGraphQLClient {
+	return clientFromVariables(process.env, 'environment', opts);
+}
+
+// Reads credentials from the given .env file without touching process.env, so two stores can be used side by side
+export function createShopifyClientFromEnvFile(filePath: string, opts: Pick<ShopifyClientOptions, 'onThrottleStatus'> = {}): ShopifyGraphQLClient {
+	return clientFromVariables(dotenv.parse(fs.readFileSync(filePath, 'utf8')), filePath, opts);
+}
+
+function clientFromVariables(vars: NodeJS.ProcessEnv | Record<string, string>, source: string, opts: Pick<ShopifyClientOptions, 'onThrottleStatus'>): ShopifyGraphQLClient {
+	const domain = vars.SHOPIFY_STORE_DOMAIN;
+	const token = vars.SHOPIFY_ADMIN_API_TOKEN ?? vars.SHOPIFY_ADMIN_API_ACCESS_TOKEN;
+	if (!domain) throw new Error(`Missing SHOPIFY_STORE_DOMAIN in ${source}`);
+	if (!token) throw new Error(`Missing SHOPIFY_ADMIN_API_TOKEN in ${source}`);
+	return new ShopifyGraphQLClient({ domain, token, apiVersion: '2025-07', ...opts });
+}
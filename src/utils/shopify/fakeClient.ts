@@ -0,0 +1,33 @@
+import { ShopifyGraphQLClient, type GraphQLResponse, type RequestOptions } from '@utils/shopify/client';
+
+// Test double for ShopifyGraphQLClient: requests are answered by a handler per GraphQL operation name
+// (the `query Foo(` / `mutation Foo(` name in the document) and never leave the process
+
+export type FakeRequest = { operation: string; query: string; variables: Record<string, unknown>; signal?: AbortSignal };
+
+export type FakeHandler = (req: FakeRequest) => GraphQLResponse<unknown> | Promise<GraphQLResponse<unknown>>;
+
+export class FakeShopifyClient extends ShopifyGraphQLClient {
+	// Every request in the order it was sent, including ones no handler answered
+	readonly sent: FakeRequest[] = [];
+	private readonly handlers: Record<string, FakeHandler>;
+
+	constructor(handlers: Record<string, FakeHandler>) {
+		super({ domain: 'fake.myshopify.com', token: 'fake' });
+		this.handlers = handlers;
+	}
+
+	override async request<T>(query: string, variables: Record<string, unknown> = {}, opts: RequestOptions = {}): Promise<GraphQLResponse<T>> {
+		const operation = /^\s*(?:query|mutation)\s+(\w+)/.exec(query)?.[1] ?? '';
+		const req = { operation, query, variables, signal: opts.signal };
+		this.sent.push(req);
+		const handler = this.handlers[operation];
+		if (!handler) throw new Error(`Unexpected GraphQL operation: ${operation || query.slice(0, 80)}`);
+		return await handler(req) as GraphQLResponse<T>;
+	}
+
+	// Requests sent for one operation
+	calls(operation: string): FakeRequest[] {
+		return this.sent.filter(r => r.operation === operation);
+	}
+}
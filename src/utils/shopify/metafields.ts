@@ -7,6 +7,44 @@ const MUTATION_METAFIELDS_SET = `mutation MetafieldsSet($metafields: [Metafields
   }
 }`;
 
+const MUTATION_METAFIELDS_DELETE = `mutation MetafieldsDelete($metafields: [MetafieldIdentifierInput!]!) {
+  metafieldsDelete(metafields: $metafields) {
+    deletedMetafields { ownerId namespace key }
+    userErrors { field message }
+  }
+}`;
+
+const Q_OWNER_METAFIELDS = `query OwnerMetafields($ids: [ID!]!, $namespace: String!, $key: String!) {
+  nodes(ids: $ids) {
+    id
+    ... on HasMetafields { metafield(namespace: $namespace, key: $key) { type value } }
+  }
+}`;
+
+const Q_METAFIELD_DEFINITION = `query OwnerMetafieldDefinition($identifier: MetafieldDefinitionIdentifierInput!) {
+  metafieldDefinition(identifier: $identifier) {
+    id
+    name
+    description
+    type { name }
+    validations { name value }
+  }
+}`;
+
+const MUTATION_METAFIELD_DEFINITION_CREATE = `mutation MetafieldDefinitionCreate($definition: MetafieldDefinitionInput!) {
+  metafieldDefinitionCreate(definition: $definition) {
+    createdDefinition { id }
+    userErrors { field message code }
+  }
+}`;
+
+// Metafield types a back reference to a metaobject can be written into
+const BACK_REFERENCE_TYPES = ['metaobject_reference', 'list.metaobject_reference', 'mixed_reference', 'list.mixed_reference'];
+
+export type MetafieldOwnerType = 'PRODUCT' | 'PRODUCTVARIANT' | 'COLLECTION' | 'PAGE';
+
+export type OwnerMetafieldDefinition = { id: string; name: string; description?: string | null; type: string; validations: Array<{ name: string; value?: string | null }> };
+
 export type MetafieldSetItem = {
 	ownerId: string;
 	namespace: string;
@@ -14,13 +52,146 @@ export type MetafieldSetItem = {
 	// Provide either ids (list) or id (single) to control type/shape
 	ids?: string[]; // for list.metaobject_reference
 	id?: string;    // for metaobject_reference
+	type?: string;  // explicit metafield type, overrides the ids/id inference
+	value?: string; // raw value, overrides ids/id (used when restoring a previous value)
 };
 
+export type BackReferenceMode = 'merge' | 'replace';
+
+export type BackReferenceWrite = {
+	ownerId: string;
+	ownerType: MetafieldOwnerType;
+	namespace: string;
+	key: string;
+	ids: string[]; // imported metaobject ids for this owner/namespace/key
+};
+
+export type OwnerMetafieldValue = { type: string; value: string };
+
+// Current metafield values keyed by `${ownerId}:${namespace}:${key}`; null when the owner has no value
+export async function fetchOwnerMetafields(client: ShopifyGraphQLClient, writes: Array<Pick<BackReferenceWrite, 'ownerId' | 'namespace' | 'key'>>): Promise<Map<string, OwnerMetafieldValue | null>> {
+	const out = new Map<string, OwnerMetafieldValue | null>();
+	const byField = new Map<string, { namespace: string; key: string; ownerIds: Set<string> }>();
+	for (const w of writes) {
+		const fk = `${w.namespace}:${w.key}`;
+		if (!byField.has(fk)) byField.set(fk, { namespace: w.namespace, key: w.key, ownerIds: new Set() });
+		byField.get(fk)!.ownerIds.add(w.ownerId);
+	}
+	for (const { namespace, key, ownerIds } of byField.values()) {
+		const ids = Array.from(ownerIds);
+		for (let i = 0; i < ids.length; i += 250) {
+			const chunk = ids.slice(i, i + 250);
+			const res = await client.request<{ nodes: Array<{ id: string; metafield?: OwnerMetafieldValue | null } | null> }>(Q_OWNER_METAFIELDS, { ids: chunk, namespace, key });
+			if (res.errors && res.errors.length > 0) {
+				throw new Error(`Failed to read ${namespace}.${key} metafields: ${res.errors.map(e => e.message).join('; ')}`);
+			}
+			for (const node of res.data?.nodes ?? []) {
+				if (!node) continue;
+				out.set(`${node.id}:${namespace}:${key}`, node.metafield ?? null);
+			}
+		}
+	}
+	return out;
+}
+
+export function metafieldOwnerTypeForId(id: string): MetafieldOwnerType | undefined {
+	return metafieldOwnerTypeForResource(id.replace('gid://shopify/', '').split('/')[0]);
+}
+
+// Maps a GraphQL resource name (as in BackReference.ownerType) to the MetafieldOwnerType enum
+export function metafieldOwnerTypeForResource(resource: string): MetafieldOwnerType | undefined {
+	switch (resource) {
+		case 'Product': return 'PRODUCT';
+		case 'ProductVariant': return 'PRODUCTVARIANT';
+		case 'Collection': return 'COLLECTION';
+		case 'Page': return 'PAGE';
+		default: return undefined;
+	}
+}
+
+export async function createOwnerMetafieldDefinition(client: ShopifyGraphQLClient, definition: { ownerType: MetafieldOwnerType; namespace: string; key: string; name: string; description?: string; type: string; validations: Array<{ name: string; value: string }> }): Promise<{ id?: string; userErrors: Array<{ field?: string[]; message: string; code?: string }> }> {
+	const res = await client.request<{ metafieldDefinitionCreate: { createdDefinition?: { id: string } | null; userErrors: Array<{ field?: string[]; message: string; code?: string }> } }>(MUTATION_METAFIELD_DEFINITION_CREATE, { definition });
+	const userErrors = res.data?.metafieldDefinitionCreate.userErrors ?? (res.errors ?? []).map(e => ({ message: e.message }));
+	return { id: res.data?.metafieldDefinitionCreate.createdDefinition?.id, userErrors };
+}
+
+// Definitions keyed by `${ownerType}:${namespace}:${key}`; null when the target store has none
+export async function fetchOwnerMetafieldDefinitions(client: ShopifyGraphQLClient, keys: Array<{ ownerType: MetafieldOwnerType; namespace: string; key: string }>): Promise<Map<string, OwnerMetafieldDefinition | null>> {
+	const out = new Map<string, OwnerMetafieldDefinition | null>();
+	for (const k of keys) {
+		const mapKey = `${k.ownerType}:${k.namespace}:${k.key}`;
+		if (out.has(mapKey)) continue;
+		const res = await client.request<{ metafieldDefinition: { id: string; name: string; description?: string | null; type: { name: string }; validations: Array<{ name: string; value?: string | null }> } | null }>(Q_METAFIELD_DEFINITION, { identifier: { ownerType: k.ownerType, namespace: k.namespace, key: k.key } });
+		if (res.errors && res.errors.length > 0) {
+			throw new Error(`Failed to read metafield definition ${k.ownerType} ${k.namespace}.${k.key}: ${res.errors.map(e => e.message).join('; ')}`);
+		}
+		const d = res.data?.metafieldDefinition;
+		out.set(mapKey, d ? { id: d.id, name: d.name, description: d.description, type: d.type.name, validations: d.validations } : null);
+	}
+	return out;
+}
+
+// Turn back reference writes into metafieldsSet items typed by the owner's metafield definition,
+// unioning with current list values unless mode is 'replace'
+// `previous` holds each owner's value before the write, for the rollback journal
+export async function buildBackReferenceSetItems(client: ShopifyGraphQLClient, writes: BackReferenceWrite[], mode: BackReferenceMode = 'merge'): Promise<{ items: Array<MetafieldSetItem | undefined>; errors: Array<string | undefined>; previous: Array<OwnerMetafieldValue | null> }> {
+	const definitions = await fetchOwnerMetafieldDefinitions(client, writes);
+	const current = await fetchOwnerMetafields(client, writes);
+	const items: Array<MetafieldSetItem | undefined> = [];
+	const errors: Array<string | undefined> = [];
+	const previous = writes.map(w => current.get(`${w.ownerId}:${w.namespace}:${w.key}`) ?? null);
+	for (const w of writes) {
+		const ids = Array.from(new Set(w.ids));
+		const definition = definitions.get(`${w.ownerType}:${w.namespace}:${w.key}`) ?? null;
+		if (!definition) {
+			items.push(undefined);
+			errors.push(`No ${w.ownerType} metafield definition for ${w.namespace}.${w.key} in the target store`);
+			continue;
+		}
+		const type = definition.type;
+		if (!BACK_REFERENCE_TYPES.includes(type)) {
+			items.push(undefined);
+			errors.push(`${w.ownerType} metafield ${w.namespace}.${w.key} is ${type}, not a metaobject or mixed reference`);
+			continue;
+		}
+		const existing = current.get(`${w.ownerId}:${w.namespace}:${w.key}`) ?? null;
+		if (type.startsWith('list.')) {
+			const merged = mode === 'merge' && existing ? unionIds(parseIdList(existing.value), ids) : ids;
+			items.push({ ownerId: w.ownerId, namespace: w.namespace, key: w.key, ids: merged, type });
+			errors.push(undefined);
+			continue;
+		}
+		if (ids.length > 1) {
+			items.push(undefined);
+			errors.push(`${w.ownerType} metafield ${w.namespace}.${w.key} on ${w.ownerId} is a single reference (${type}) but ${ids.length} metaobjects reference it`);
+			continue;
+		}
+		items.push({ ownerId: w.ownerId, namespace: w.namespace, key: w.key, id: ids[0], type });
+		errors.push(undefined);
+	}
+	return { items, errors, previous };
+}
+
+function unionIds(existing: string[], incoming: string[]): string[] {
+	const out = existing.slice();
+	for (const id of incoming) if (!out.includes(id)) out.push(id);
+	return out;
+}
+
+function parseIdList(value: string): string[] {
+	try {
+		const parsed = JSON.parse(value) as unknown;
+		return Array.isArray(parsed) ? parsed.map(String) : [];
+	} catch {
+		return [];
+	}
+}
+
 export async function metafieldsSetBatch(client: ShopifyGraphQLClient, items: MetafieldSetItem[]): Promise<{ userErrors: Array<{ field?: string[]; message: string }> }> {
 	const inputs = items.map(i => {
-		const isList = Array.isArray(i.ids);
-		const value = isList ? JSON.stringify(i.ids ?? []) : String(i.id ?? '');
-		const type = isList ? 'list.metaobject_reference' : 'metaobject_reference';
+		const isList = i.type ? i.type.startsWith('list.') : Array.isArray(i.ids);
+		const value = i.value ?? (isList ? JSON.stringify(i.ids ?? (i.id ? [i.id] : [])) : String(i.id ?? i.ids?.[0] ?? ''));
+		const type = i.type ?? (isList ? 'list.metaobject_reference' : 'metaobject_reference');
 		return { ownerId: i.ownerId, namespace: i.namespace, key: i.key, value, type };
 	});
 	const chunks: typeof inputs[] = [];
@@ -33,4 +204,14 @@ export async function metafieldsSetBatch(client: ShopifyGraphQLClient, items: Me
 		allErrors.push(...errs);
 	}
 	return { userErrors: allErrors };
-} 
\ No newline at end of file
+}
+
+export async function metafieldsDeleteBatch(client: ShopifyGraphQLClient, items: Array<{ ownerId: string; namespace: string; key: string }>): Promise<{ userErrors: Array<{ field?: string[]; message: string }> }> {
+	const allErrors: Array<{ field?: string[]; message: string }> = [];
+	for (let i = 0; i < items.length; i += 25) {
+		const chunk = items.slice(i, i + 25);
+		const res = await client.request<{ metafieldsDelete: { userErrors: Array<{ field?: string[]; message: string }> } }>(MUTATION_METAFIELDS_DELETE, { metafields: chunk });
+		allErrors.push(...(res.data?.metafieldsDelete.userErrors ?? (res.errors ?? []).map(e => ({ message: e.message }))));
+	}
+	return { userErrors: allErrors };
+}
\ No newline at end of file
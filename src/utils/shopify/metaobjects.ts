@@ -1,8 +1,9 @@
 import { ShopifyGraphQLClient, GraphQLResponse } from '@utils/shopify/client';
 import { normaliseMetaobjectType } from '@utils/schema';
+import { groupBulkRows, runBulkQuery, type BulkOperation, type BulkRow } from '@utils/shopify/bulk';
 
-const QUERY_METAOBJECTS = `query MetaobjectsPage($type: String!, $first: Int!, $after: String) {
-  metaobjects(type: $type, first: $first, after: $after) {
+const QUERY_METAOBJECTS = `query MetaobjectsPage($type: String!, $first: Int!, $after: String, $query: String) {
+  metaobjects(type: $type, first: $first, after: $after, query: $query) {
     pageInfo { hasNextPage endCursor }
     nodes {
       id
@@ -23,6 +24,7 @@ const QUERY_METAOBJECTS = `query MetaobjectsPage($type: String!, $first: Int!, $
 		  ... on MediaImage { id image { url } }
         }
         references(first: 25) {
+          pageInfo { hasNextPage endCursor }
           nodes {
             __typename
             ... on Metaobject { id handle type }
@@ -61,6 +63,17 @@ const MUTATION_METAOBJECT_UPSERT = `mutation UpsertMetaobject($handle: Metaobjec
   }
 }`;
 
+const QUERY_METAOBJECT_FIELD_VALUES_BY_HANDLE = `query MetaobjectFieldValuesByHandle($handle: MetaobjectHandleInput!) {
+  metaobjectByHandle(handle: $handle) { id handle fields { key value } }
+}`;
+
+const MUTATION_METAOBJECT_DELETE = `mutation DeleteMetaobject($id: ID!) {
+  metaobjectDelete(id: $id) {
+    deletedId
+    userErrors { field message }
+  }
+}`;
+
 export type MetaobjectNode = {
 	id: string;
 	handle: string;
@@ -71,20 +84,27 @@ export type MetaobjectNode = {
 		value?: string | null;
 		jsonValue?: unknown;
 		reference?: { __typename: string; id: string; handle?: string; type?: string; sku?: string; product?: { handle?: string }; image?: { url?: string } } | null;
-		references?: { nodes: Array<{ __typename: string; id: string; handle?: string; type?: string; sku?: string; product?: { handle?: string }; image?: { url?: string } }> } | null;
+		references?: { pageInfo?: { hasNextPage: boolean; endCursor?: string | null }; nodes: Array<{ __typename: string; id: string; handle?: string; type?: string; sku?: string; product?: { handle?: string }; image?: { url?: string } }> } | null;
 	}>;
 	referencedBy?: { pageInfo: { hasNextPage: boolean; endCursor?: string }; edges: BackRefEdge[] } | null;
 };
 
-export async function fetchAllMetaobjects(client: ShopifyGraphQLClient, type: string, onPage?: (nodes: MetaobjectNode[], pageInfo: { hasNextPage: boolean; endCursor?: string }) => Promise<void> | void): Promise<MetaobjectNode[]> {
+// `query` is a Shopify search string (handle:, updated_at:, display_name:, …) narrowing the entries
+export async function fetchAllMetaobjects(client: ShopifyGraphQLClient, type: string, onPage?: (nodes: MetaobjectNode[], pageInfo: { hasNextPage: boolean; endCursor?: string }) => Promise<void> | void, signal?: AbortSignal, query?: string): Promise<MetaobjectNode[]> {
 	const first = 250;
 	let after: string | undefined = undefined;
 	let all: MetaobjectNode[] = [];
 	 
 	while (true) {
-		const res: GraphQLResponse<{ metaobjects: { pageInfo: { hasNextPage: boolean; endCursor?: string }; nodes: MetaobjectNode[] } }> = await client.request(QUERY_METAOBJECTS, { type, first, after });
+		const res: GraphQLResponse<{ metaobjects: { pageInfo: { hasNextPage: boolean; endCursor?: string }; nodes: MetaobjectNode[] } }> = await client.request(QUERY_METAOBJECTS, { type, first, after, query }, { signal });
+		// Ending early would write a short export that looks complete, and its watermark would hide the rest from incremental exports.
+		// A malformed search query lands here too, so name it
+		if (res.errors && res.errors.length > 0) {
+			throw new Error(`Failed to export ${type} entries${query ? ` matching ${JSON.stringify(query)}` : ''}: ${res.errors.map(e => e.message).join('; ')}`);
+		}
 		const page = res.data?.metaobjects;
-		if (!page) break;
+		if (!page) throw new Error(`Failed to export ${type} entries: no data returned`);
+		await completeFieldReferences(client, page.nodes, signal);
 		all = all.concat(page.nodes);
 		if (onPage) await onPage(page.nodes, page.pageInfo);
 		if (!page.pageInfo.hasNextPage) break;
@@ -93,6 +113,203 @@ export async function fetchAllMetaobjects(client: ShopifyGraphQLClient, type: st
 	return all;
 }
 
+// Bulk queries take no variables and no page sizes; nested connections come back as separate rows
+function bulkMetaobjectsQuery(type: string, includeBackReferences: boolean, query?: string): string {
+	return `{
+  metaobjects(type: ${JSON.stringify(type)}${query ? `, query: ${JSON.stringify(query)}` : ''}) {
+    edges {
+      node {
+        id
+        handle
+        type
+        fields {
+          key
+          type
+          value
+          jsonValue
+          reference {
+            __typename
+            ... on Metaobject { id handle type }
+            ... on Product { id handle }
+            ... on Page { id handle }
+            ... on ProductVariant { id sku product { handle } }
+            ... on Collection { id handle }
+            ... on MediaImage { id image { url } }
+          }
+        }${includeBackReferences ? `
+        referencedBy {
+          edges {
+            node {
+              namespace
+              key
+              referencer {
+                __typename
+                ... on Product { id handle }
+                ... on ProductVariant { id sku product { handle } }
+                ... on Page { id handle }
+                ... on Collection { id handle }
+              }
+            }
+          }
+        }` : ''}
+      }
+    }
+  }
+}`;
+}
+
+// Resolves list reference values (JSON arrays of gids), which a bulk query can't select as a connection
+const QUERY_REFERENCE_NODES = `query ReferenceNodes($ids: [ID!]!) {
+  nodes(ids: $ids) {
+    __typename
+    ... on Metaobject { id handle type }
+    ... on Product { id handle }
+    ... on Page { id handle }
+    ... on ProductVariant { id sku product { handle } }
+    ... on Collection { id handle }
+    ... on MediaImage { id image { url } }
+  }
+}`;
+
+type ReferenceNode = NonNullable<MetaobjectNode['fields'][number]['reference']>;
+
+export type BulkFetchOptions = {
+	includeBackReferences?: boolean;
+	query?: string; // as in fetchAllMetaobjects
+	onStatus?: (op: BulkOperation) => void;
+	pollMs?: number; // as in runBulkQuery
+	signal?: AbortSignal;
+};
+
+// Same nodes as fetchAllMetaobjects, read through one bulk operation. Back references are complete
+// (no referencedBy pagination needed) and list references are resolved in batches of 250 ids.
+export async function fetchAllMetaobjectsBulk(client: ShopifyGraphQLClient, type: string, onPage?: (nodes: MetaobjectNode[], pageInfo: { hasNextPage: boolean; endCursor?: string }) => Promise<void> | void, opts: BulkFetchOptions = {}): Promise<MetaobjectNode[]> {
+	const rows: BulkRow[] = [];
+	await runBulkQuery(client, bulkMetaobjectsQuery(type, Boolean(opts.includeBackReferences), opts.query), (row) => rows.push(row), { onStatus: opts.onStatus, pollMs: opts.pollMs, signal: opts.signal });
+	const nodes: MetaobjectNode[] = groupBulkRows(rows).map(({ row, children }) => ({
+		...(row as unknown as MetaobjectNode),
+		referencedBy: opts.includeBackReferences ? { pageInfo: { hasNextPage: false }, edges: children.map(c => ({ node: c as unknown as BackRefEdge['node'] })) } : undefined
+	}));
+
+	const listIds = new Set<string>();
+	for (const n of nodes) {
+		for (const f of n.fields) {
+			if (!f.type.startsWith('list.') || !f.type.endsWith('_reference')) continue;
+			for (const id of parseGidList(f.value)) listIds.add(id);
+		}
+	}
+	const resolved = new Map<string, ReferenceNode>();
+	const ids = Array.from(listIds);
+	for (let i = 0; i < ids.length; i += 250) {
+		const res = await client.request<{ nodes: Array<ReferenceNode | null> }>(QUERY_REFERENCE_NODES, { ids: ids.slice(i, i + 250) }, { signal: opts.signal });
+		if (res.errors && res.errors.length > 0) throw new Error(`Failed to resolve list references: ${res.errors.map(e => e.message).join('; ')}`);
+		for (const r of res.data?.nodes ?? []) if (r) resolved.set(r.id, r);
+	}
+	for (const n of nodes) {
+		for (const f of n.fields) {
+			if (!f.type.startsWith('list.') || !f.type.endsWith('_reference')) continue;
+			f.references = { nodes: parseGidList(f.value).map(id => resolved.get(id)).filter((r): r is ReferenceNode => Boolean(r)) };
+		}
+	}
+
+	for (let i = 0; i < nodes.length; i += 250) {
+		if (onPage) await onPage(nodes.slice(i, i + 250), { hasNextPage: i + 250 < nodes.length });
+	}
+	return nodes;
+}
+
+function parseGidList(value: string | null | undefined): string[] {
+	if (!value) return [];
+	try {
+		const parsed = JSON.parse(value) as unknown;
+		return Array.isArray(parsed) ? parsed.filter(isGid) : [];
+	} catch {
+		return [];
+	}
+}
+
+const QUERY_FIELD_REFERENCES = `query MetaobjectFieldReferences($id: ID!, $key: String!, $first: Int!, $after: String) {
+  metaobject(id: $id) {
+    field(key: $key) {
+      references(first: $first, after: $after) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          __typename
+          ... on Metaobject { id handle type }
+          ... on Product { id handle }
+          ... on Page { id handle }
+          ... on ProductVariant { id sku product { handle } }
+          ... on Collection { id handle }
+          ... on MediaImage { id image { url } }
+        }
+      }
+    }
+  }
+}`;
+
+type ReferencesPage = NonNullable<MetaobjectNode['fields'][number]['references']>;
+
+// The page query only reads the first 25 references per list field; fetch the rest so exported lists aren't truncated
+async function completeFieldReferences(client: ShopifyGraphQLClient, nodes: MetaobjectNode[], signal?: AbortSignal): Promise<void> {
+	for (const node of nodes) {
+		for (const f of node.fields) {
+			let pageInfo = f.references?.pageInfo;
+			while (f.references && pageInfo?.hasNextPage) {
+				const res: GraphQLResponse<{ metaobject: { field: { references: ReferencesPage | null } | null } | null }> = await client.request(QUERY_FIELD_REFERENCES, { id: node.id, key: f.key, first: 250, after: pageInfo.endCursor ?? undefined }, { signal });
+				const rest = res.data?.metaobject?.field?.references;
+				if (!rest) throw new Error(`Failed to read references of ${node.type}/${node.handle} ${f.key}: ${(res.errors ?? []).map(e => e.message).join('; ') || 'field not found'}`);
+				f.references.nodes = f.references.nodes.concat(rest.nodes);
+				pageInfo = rest.pageInfo;
+			}
+		}
+	}
+}
+
+const QUERY_METAOBJECT_FIELD_VALUES = `query MetaobjectFieldValues($type: String!, $first: Int!, $after: String) {
+  metaobjects(type: $type, first: $first, after: $after) {
+    pageInfo { hasNextPage endCursor }
+    nodes { id handle fields { key value } }
+  }
+}`;
+
+export type MetaobjectFieldValues = { id: string; handle: string; fields: Array<{ key: string; value?: string | null }> };
+
+// Lightweight variant of fetchAllMetaobjects returning only raw field values, used to compare against the target store
+export async function fetchMetaobjectFieldValues(client: ShopifyGraphQLClient, type: string, onPage?: (nodes: MetaobjectFieldValues[]) => Promise<void> | void): Promise<MetaobjectFieldValues[]> {
+	const first = 250;
+	let after: string | undefined = undefined;
+	let all: MetaobjectFieldValues[] = [];
+
+	while (true) {
+		const res: GraphQLResponse<{ metaobjects: { pageInfo: { hasNextPage: boolean; endCursor?: string }; nodes: MetaobjectFieldValues[] } }> = await client.request(QUERY_METAOBJECT_FIELD_VALUES, { type, first, after });
+		// A failed page must not read as "no entries": plans would say create and prune would see an empty store
+		if (res.errors && res.errors.length > 0) {
+			throw new Error(`Failed to list ${type} entries: ${res.errors.map(e => e.message).join('; ')}`);
+		}
+		const page = res.data?.metaobjects;
+		if (!page) throw new Error(`Failed to list ${type} entries: no data returned`);
+		all = all.concat(page.nodes);
+		if (onPage) await onPage(page.nodes);
+		if (!page.pageInfo.hasNextPage) break;
+		after = page.pageInfo.endCursor ?? undefined;
+	}
+	return all;
+}
+
+export async function fetchMetaobjectFieldValuesByHandle(client: ShopifyGraphQLClient, type: string, handle: string): Promise<MetaobjectFieldValues | null> {
+	const res = await client.request<{ metaobjectByHandle: MetaobjectFieldValues | null }>(QUERY_METAOBJECT_FIELD_VALUES_BY_HANDLE, { handle: { type, handle } });
+	if (res.errors && res.errors.length > 0) {
+		throw new Error(`Failed to read ${type}/${handle}: ${res.errors.map(e => e.message).join('; ')}`);
+	}
+	return res.data?.metaobjectByHandle ?? null;
+}
+
+export async function deleteMetaobject(client: ShopifyGraphQLClient, id: string): Promise<{ deletedId?: string; userErrors: Array<{ field?: string[]; message: string }> }> {
+	const res = await client.request<{ metaobjectDelete: { deletedId?: string | null; userErrors: Array<{ field?: string[]; message: string }> } }>(MUTATION_METAOBJECT_DELETE, { id });
+	const userErrors = res.data?.metaobjectDelete.userErrors ?? (res.errors ?? []).map(e => ({ message: e.message }));
+	return { deletedId: res.data?.metaobjectDelete.deletedId ?? undefined, userErrors };
+}
+
 export type UpsertMetaobjectInput = {
 	handle: { type: string; handle: string };
 	metaobject: {
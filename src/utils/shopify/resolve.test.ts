@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeShopifyClient } from '@utils/shopify/fakeClient';
+import { BulkHandleResolver } from '@utils/shopify/resolve';
+
+// A store holding `size` entries of one type, handles entry-0 … entry-(size-1)
+function storeOfSize(type: string, size: number): FakeShopifyClient {
+	const idOf = (handle: string) => `gid://shopify/Metaobject/${handle.replace('entry-', '')}`;
+	const exists = (handle: string) => /^entry-\d+$/.test(handle) && Number(handle.slice(6)) < size;
+	return new FakeShopifyClient({
+		MetaobjectCount: () => ({ data: { metaobjectDefinitionByType: { metaobjectsCount: size } } }),
+		MetaobjectsByHandle: ({ variables }) => {
+			const data: Record<string, unknown> = {};
+			for (const [key, handle] of Object.entries(variables)) {
+				if (key === 'type') continue;
+				data[`m${key.slice(1)}`] = exists(handle as string) ? { id: idOf(handle as string), handle, type } : null;
+			}
+			return { data };
+		},
+		MetaobjectsByType: ({ variables }) => {
+			const start = variables.after ? Number(variables.after) : 0;
+			const end = Math.min(size, start + (variables.first as number));
+			const nodes = Array.from({ length: end - start }, (_, i) => ({ id: idOf(`entry-${start + i}`), handle: `entry-${start + i}`, type }));
+			return { data: { metaobjects: { pageInfo: { hasNextPage: end < size, endCursor: String(end) }, nodes } } };
+		},
+	});
+}
+
+const refsFor = (type: string, handles: string[]) => handles.map(h => `handle://shopify/Metaobject/${type}/${h}`);
+
+test('a few hundred handles in a type of several thousand entries are looked up exactly, not scanned', async () => {
+	const client = storeOfSize('ingredient', 5000);
+	const handles = Array.from({ length: 300 }, (_, i) => `entry-${i * 16}`);
+	const results = await new BulkHandleResolver(client).resolveBulk(refsFor('ingredient', handles));
+
+	assert.equal(client.calls('MetaobjectsByType').length, 0);
+	assert.equal(client.calls('MetaobjectCount').length, 1);
+	assert.equal(client.calls('MetaobjectsByHandle').length, 6);
+	assert.equal(results.get('handle://shopify/Metaobject/ingredient/entry-4784'), 'gid://shopify/Metaobject/4784');
+	assert.equal([...results.values()].filter(Boolean).length, 300);
+});
+
+test('handles that are most of the type are resolved by scanning it', async () => {
+	const client = storeOfSize('ingredient', 4000);
+	const handles = Array.from({ length: 3000 }, (_, i) => `entry-${i}`);
+	const results = await new BulkHandleResolver(client).resolveBulk(refsFor('ingredient', handles));
+
+	assert.equal(client.calls('MetaobjectsByHandle').length, 0);
+	// Stops once all 3000 are found, before the last page
+	assert.equal(client.calls('MetaobjectsByType').length, 12);
+	assert.equal([...results.values()].filter(Boolean).length, 3000);
+});
+
+test('handles missing from the type resolve to null', async () => {
+	const client = storeOfSize('ingredient', 3000);
+	const handles = [...Array.from({ length: 150 }, (_, i) => `entry-${i * 10}`), 'entry-9999', 'gone'];
+	const results = await new BulkHandleResolver(client).resolveBulk(refsFor('ingredient', handles));
+
+	assert.equal(results.get('handle://shopify/Metaobject/ingredient/entry-9999'), null);
+	assert.equal(results.get('handle://shopify/Metaobject/ingredient/gone'), null);
+	assert.equal([...results.values()].filter(Boolean).length, 150);
+});
+
+test('product search stops paging once every handle in the chunk is found', async () => {
+	const client: FakeShopifyClient = new FakeShopifyClient({
+		ProductsBulk: () => {
+			const page = client.calls('ProductsBulk').length;
+			// Fuzzy search keeps offering near matches after the exact ones
+			const nodes = page === 1
+				? [{ id: 'gid://shopify/Product/1', handle: 'salt' }, { id: 'gid://shopify/Product/2', handle: 'pepper' }]
+				: [{ id: `gid://shopify/Product/${page + 10}`, handle: `salt-${page}` }];
+			return { data: { products: { pageInfo: { hasNextPage: true, endCursor: String(page) }, nodes } } };
+		},
+	});
+	const results = await new BulkHandleResolver(client).resolveBulk(['handle://shopify/Product/salt', 'handle://shopify/Product/pepper']);
+
+	assert.equal(client.calls('ProductsBulk').length, 1);
+	assert.equal(results.get('handle://shopify/Product/pepper'), 'gid://shopify/Product/2');
+});
@@ -1,5 +1,5 @@
 /* eslint-disable no-console */
-import { ShopifyGraphQLClient } from '@utils/shopify/client';
+import { ShopifyGraphQLClient, type GraphQLResponse } from '@utils/shopify/client';
 import { normaliseMetaobjectType } from '@utils/schema';
 import { imageUrlToMediaImageGid } from './imageUrlToMediaImageGid';
 
@@ -10,27 +10,63 @@ const Q_VARIANTS_FOR_PRODUCT = `query VariantIdByProductHandle($handle: String!)
 const Q_COLLECTION_ID = `query CollectionIdByHandle($handle: String!) { collectionByHandle(handle: $handle) { id handle } }`;
 
 // Bulk queries for efficient resolution
-const Q_PRODUCTS_BULK = `query ProductsBulk($query: String!) {
-  products(first: 250, query: $query) {
+const Q_PRODUCTS_BULK = `query ProductsBulk($query: String!, $first: Int!, $after: String) {
+  products(first: $first, after: $after, query: $query) {
+    pageInfo { hasNextPage endCursor }
     nodes { id handle }
   }
 }`;
 
-const Q_COLLECTIONS_BULK = `query CollectionsBulk($query: String!) {
-  collections(first: 250, query: $query) {
+const Q_COLLECTIONS_BULK = `query CollectionsBulk($query: String!, $first: Int!, $after: String) {
+  collections(first: $first, after: $after, query: $query) {
+    pageInfo { hasNextPage endCursor }
     nodes { id handle }
   }
 }`;
 
-const Q_PAGES_BULK = `query PagesBulk($query: String!) {
-  pages(first: 250, query: $query) {
+const Q_PAGES_BULK = `query PagesBulk($query: String!, $first: Int!, $after: String) {
+  pages(first: $first, after: $after, query: $query) {
+    pageInfo { hasNextPage endCursor }
     nodes { id handle }
   }
 }`;
 
+// Search queries are chunked by handle count and length; handles the search index misses fall back to exact lookups
+const SEARCH_CHUNK_MAX_HANDLES = 50;
+const SEARCH_CHUNK_MAX_QUERY_LENGTH = 2000;
+
+type SearchKind = 'products' | 'collections' | 'pages';
+
+type ChunkProgress = { message?: string; apiCalls: number; resolved: number; failed: number };
+
+const SEARCH_QUERIES: Record<SearchKind, { query: string; label: string }> = {
+	products: { query: Q_PRODUCTS_BULK, label: 'products' },
+	collections: { query: Q_COLLECTIONS_BULK, label: 'collections' },
+	pages: { query: Q_PAGES_BULK, label: 'pages' }
+};
+
+function chunkHandleSearches(handles: string[], maxHandles = SEARCH_CHUNK_MAX_HANDLES, maxLength = SEARCH_CHUNK_MAX_QUERY_LENGTH): string[][] {
+	const chunks: string[][] = [];
+	let current: string[] = [];
+	let length = 0;
+	for (const handle of handles) {
+		const term = `handle:${handle}`;
+		if (current.length > 0 && (current.length >= maxHandles || length + term.length + 4 > maxLength)) {
+			chunks.push(current);
+			current = [];
+			length = 0;
+		}
+		length += current.length > 0 ? term.length + 4 : term.length; // ' OR ' separator
+		current.push(handle);
+	}
+	if (current.length > 0) chunks.push(current);
+	return chunks;
+}
+
 // For metaobjects, we need to group by type since the API requires type parameter
-const Q_METAOBJECTS_BY_TYPE = `query MetaobjectsByType($type: String!) {
-  metaobjects(type: $type, first: 250) {
+const Q_METAOBJECTS_BY_TYPE = `query MetaobjectsByType($type: String!, $first: Int!, $after: String) {
+  metaobjects(type: $type, first: $first, after: $after) {
+    pageInfo { hasNextPage endCursor }
     nodes { 
       id 
       handle 
@@ -39,6 +75,21 @@ const Q_METAOBJECTS_BY_TYPE = `query MetaobjectsByType($type: String!) {
   }
 }`;
 
+const Q_METAOBJECT_COUNT = `query MetaobjectCount($type: String!) { metaobjectDefinitionByType(type: $type) { metaobjectsCount } }`;
+
+// Handles are looked up exactly with aliased metaobjectByHandle fields, 50 per request. Past 100 handles the type's
+// entry count is checked and the type is scanned instead only when that takes fewer requests, i.e. when the
+// wanted handles are a large share of the type
+const METAOBJECT_ALIAS_LOOKUP_LIMIT = 100;
+const METAOBJECT_ALIAS_CHUNK_SIZE = 50;
+const METAOBJECT_SCAN_PAGE_SIZE = 250;
+
+function buildMetaobjectsByHandleQuery(count: number): string {
+	const vars = Array.from({ length: count }, (_, i) => `$h${i}: String!`).join(', ');
+	const fields = Array.from({ length: count }, (_, i) => `  m${i}: metaobjectByHandle(handle: { type: $type, handle: $h${i} }) { id handle type }`).join('\n');
+	return `query MetaobjectsByHandle($type: String!, ${vars}) {\n${fields}\n}`;
+}
+
 export type HandleRef = string; // handle://shopify/...
 
 type Cache = Map<string, string | null>;
@@ -120,6 +171,11 @@ export class BulkHandleResolver {
 		this.client = client;
 	}
 
+	// Record an id learned outside the resolver, e.g. a metaobject created earlier in the same import
+	remember(ref: HandleRef, id: string): void {
+		this.cache.set(ref, id);
+	}
+
 	async resolve(ref: HandleRef): Promise<string | null> {
 		if (this.cache.has(ref)) return this.cache.get(ref)!;
 		// For single resolution, fall back to individual query
@@ -164,8 +220,10 @@ export class BulkHandleResolver {
 		if (byType.products.length > 0) {
 			onProgress?.({ phase: 'resolving-products', total: totalTypes, processed: processedTypes, currentType: 'Products', message: `Resolving ${byType.products.length} product references...`, apiCallsCount, resolvedCount: totalResolvedCount, failedCount: totalFailedCount });
 			try {
-				const { resolved, failed } = await this.resolveProductsBulk(byType.products, results);
-				apiCallsCount++;
+				const { resolved, failed, apiCalls } = await this.resolveProductsBulk(byType.products, results, (chunkProgress) => {
+					onProgress?.({ phase: 'resolving-products', total: totalTypes, processed: processedTypes, currentType: 'Products', message: chunkProgress.message, apiCallsCount: apiCallsCount + chunkProgress.apiCalls, resolvedCount: totalResolvedCount + chunkProgress.resolved, failedCount: totalFailedCount + chunkProgress.failed });
+				});
+				apiCallsCount += apiCalls;
 				// Count resolved vs failed
 				totalResolvedCount += resolved;
 				totalFailedCount += failed;
@@ -180,8 +238,10 @@ export class BulkHandleResolver {
 		if (byType.collections.length > 0) {
 			onProgress?.({ phase: 'resolving-collections', total: totalTypes, processed: processedTypes, currentType: 'Collections', message: `Resolving ${byType.collections.length} collection references...`, apiCallsCount, resolvedCount: totalResolvedCount, failedCount: totalFailedCount });
 			try {
-				const { resolved, failed } = await this.resolveCollectionsBulk(byType.collections, results);
-				apiCallsCount++;
+				const { resolved, failed, apiCalls } = await this.resolveCollectionsBulk(byType.collections, results, (chunkProgress) => {
+					onProgress?.({ phase: 'resolving-collections', total: totalTypes, processed: processedTypes, currentType: 'Collections', message: chunkProgress.message, apiCallsCount: apiCallsCount + chunkProgress.apiCalls, resolvedCount: totalResolvedCount + chunkProgress.resolved, failedCount: totalFailedCount + chunkProgress.failed });
+				});
+				apiCallsCount += apiCalls;
 				// Count resolved vs failed
 				totalResolvedCount += resolved;
 				totalFailedCount += failed;
@@ -196,8 +256,10 @@ export class BulkHandleResolver {
 		if (byType.pages.length > 0) {
 			onProgress?.({ phase: 'resolving-pages', total: totalTypes, processed: processedTypes, currentType: 'Pages', message: `Resolving ${byType.pages.length} page references...`, apiCallsCount, resolvedCount: totalResolvedCount, failedCount: totalFailedCount });
 			try {
-				const { resolved, failed } = await this.resolvePagesBulk(byType.pages, results);
-				apiCallsCount++;
+				const { resolved, failed, apiCalls } = await this.resolvePagesBulk(byType.pages, results, (chunkProgress) => {
+					onProgress?.({ phase: 'resolving-pages', total: totalTypes, processed: processedTypes, currentType: 'Pages', message: chunkProgress.message, apiCallsCount: apiCallsCount + chunkProgress.apiCalls, resolvedCount: totalResolvedCount + chunkProgress.resolved, failedCount: totalFailedCount + chunkProgress.failed });
+				});
+				apiCallsCount += apiCalls;
 				// Count resolved vs failed
 				totalResolvedCount += resolved;
 				totalFailedCount += failed;
@@ -213,8 +275,8 @@ export class BulkHandleResolver {
 			for (const [type, metaobjects] of byType.metaobjects) {
 				onProgress?.({ phase: 'resolving-metaobjects', total: totalTypes, processed: processedTypes, currentType: `Metaobjects (${type})`, message: `Resolving ${metaobjects.length} ${type} references...`, apiCallsCount, resolvedCount: totalResolvedCount, failedCount: totalFailedCount });
 				try {
-					const { resolved, failed } = await this.resolveMetaobjectsBulk(new Map([[type, metaobjects]]), results);
-					apiCallsCount++;
+					const { resolved, failed, apiCalls } = await this.resolveMetaobjectsBulk(new Map([[type, metaobjects]]), results);
+					apiCallsCount += apiCalls;
 					// Count resolved vs failed
 					totalResolvedCount += resolved;
 					totalFailedCount += failed;
@@ -339,194 +401,134 @@ export class BulkHandleResolver {
 		return { products, collections, pages, metaobjects, productVariants, mediaImages };
 	}
 
-	private async resolveProductsBulk(products: Array<{ ref: HandleRef; handle: string }>, results: Map<HandleRef, string | null>): Promise<{ resolved: number; failed: number }> {
-		if (products.length === 0) return { resolved: 0, failed: 0 };
-
-		try {
-			// Build query string for multiple handles
-			const handleQuery = products.map(p => `handle:${p.handle}`).join(' OR ');
-			const res = await this.client.request<{ products: { nodes: Array<{ id: string; handle: string }> } }>(
-				Q_PRODUCTS_BULK, 
-				{ query: handleQuery }
-			);
-
-			// Check for GraphQL errors
-			if (res.errors && res.errors.length > 0) {
-				const errorMsg = res.errors.map(e => e.message).join('; ');
-				throw new Error(`GraphQL errors in products bulk resolve: ${errorMsg}`);
-			}
-
-			// Validate response structure
-			if (!res.data?.products?.nodes) {
-				throw new Error(`Invalid response structure for products bulk resolve: ${JSON.stringify(res.data)}`);
-			}
-
-			const nodesByHandle = new Map<string, string>();
-			for (const node of res.data.products.nodes) {
-				if (!node.id || !node.handle) {
-					console.warn(`Invalid product node in bulk resolve:`, node);
-					continue;
-				}
-				nodesByHandle.set(node.handle, node.id);
-			}
-
-			let resolvedCount = 0;
-			let failedCount = 0;
-			for (const { ref, handle } of products) {
-				const id = nodesByHandle.get(handle) ?? null;
-				results.set(ref, id);
-				if (id) resolvedCount++;
-				else failedCount++;
-			}
+	private async resolveProductsBulk(products: Array<{ ref: HandleRef; handle: string }>, results: Map<HandleRef, string | null>, onChunkProgress?: (progress: ChunkProgress) => void): Promise<{ resolved: number; failed: number; apiCalls: number }> {
+		return this.resolveHandlesBySearch('products', products, results, onChunkProgress);
+	}
 
-			console.log(`Products bulk resolve: ${resolvedCount} resolved, ${failedCount} failed out of ${products.length} requested`);
-			return { resolved: resolvedCount, failed: failedCount };
-		} catch (error) {
-			console.error(`Error in products bulk resolve:`, error);
-			// Mark all as failed
-			for (const { ref } of products) {
-				results.set(ref, null);
-			}
-			throw error;
-		}
+	private async resolveCollectionsBulk(collections: Array<{ ref: HandleRef; handle: string }>, results: Map<HandleRef, string | null>, onChunkProgress?: (progress: ChunkProgress) => void): Promise<{ resolved: number; failed: number; apiCalls: number }> {
+		return this.resolveHandlesBySearch('collections', collections, results, onChunkProgress);
 	}
 
-	private async resolveCollectionsBulk(collections: Array<{ ref: HandleRef; handle: string }>, results: Map<HandleRef, string | null>): Promise<{ resolved: number; failed: number }> {
-		if (collections.length === 0) return { resolved: 0, failed: 0 };
+	private async resolvePagesBulk(pages: Array<{ ref: HandleRef; handle: string }>, results: Map<HandleRef, string | null>, onChunkProgress?: (progress: ChunkProgress) => void): Promise<{ resolved: number; failed: number; apiCalls: number }> {
+		return this.resolveHandlesBySearch('pages', pages, results, onChunkProgress);
+	}
 
-		try {
-			const handleQuery = collections.map(c => `handle:${c.handle}`).join(' OR ');
-			const res = await this.client.request<{ collections: { nodes: Array<{ id: string; handle: string }> } }>(
-				Q_COLLECTIONS_BULK, 
-				{ query: handleQuery }
-			);
+	private async resolveHandlesBySearch(kind: SearchKind, items: Array<{ ref: HandleRef; handle: string }>, results: Map<HandleRef, string | null>, onChunkProgress?: (progress: ChunkProgress) => void): Promise<{ resolved: number; failed: number; apiCalls: number }> {
+		if (items.length === 0) return { resolved: 0, failed: 0, apiCalls: 0 };
+		const { query, label } = SEARCH_QUERIES[kind];
+		const nodesByHandle = new Map<string, string>();
+		let apiCalls = 0;
+
+		const handles = Array.from(new Set(items.map(i => i.handle)));
+		const chunks = chunkHandleSearches(handles);
+		for (let c = 0; c < chunks.length; c += 1) {
+			const chunk = chunks[c];
+			const wanted = new Set(chunk);
+			const pending = new Set(chunk);
+			onChunkProgress?.({ message: `Searching ${label} (chunk ${c + 1}/${chunks.length})...`, apiCalls, resolved: nodesByHandle.size, failed: 0 });
+			try {
+				let after: string | undefined = undefined;
+				while (true) {
+					const res: GraphQLResponse<Record<string, { pageInfo: { hasNextPage: boolean; endCursor?: string }; nodes: Array<{ id: string; handle: string }> }>> = await this.client.request(
+						query,
+						{ query: chunk.map(h => `handle:${h}`).join(' OR '), first: 250, after }
+					);
+					apiCalls++;
 
-			// Check for GraphQL errors
-			if (res.errors && res.errors.length > 0) {
-				const errorMsg = res.errors.map(e => e.message).join('; ');
-				throw new Error(`GraphQL errors in collections bulk resolve: ${errorMsg}`);
-			}
+					// Check for GraphQL errors
+					if (res.errors && res.errors.length > 0) {
+						const errorMsg = res.errors.map(e => e.message).join('; ');
+						throw new Error(`GraphQL errors in ${label} bulk resolve: ${errorMsg}`);
+					}
 
-			// Validate response structure
-			if (!res.data?.collections?.nodes) {
-				throw new Error(`Invalid response structure for collections bulk resolve: ${JSON.stringify(res.data)}`);
-			}
+					// Validate response structure
+					const page = res.data?.[kind];
+					if (!page?.nodes) {
+						throw new Error(`Invalid response structure for ${label} bulk resolve: ${JSON.stringify(res.data)}`);
+					}
 
-			const nodesByHandle = new Map<string, string>();
-			for (const node of res.data.collections.nodes) {
-				if (!node.id || !node.handle) {
-					console.warn(`Invalid collection node in bulk resolve:`, node);
-					continue;
+					for (const node of page.nodes) {
+						if (!node.id || !node.handle) {
+							console.warn(`Invalid ${label} node in bulk resolve:`, node);
+							continue;
+						}
+						// Search is fuzzy, only keep exact handle matches
+						if (wanted.has(node.handle)) {
+							nodesByHandle.set(node.handle, node.id);
+							pending.delete(node.handle);
+						}
+					}
+					// Fuzzy matches can run on for many pages after every handle in the chunk is found
+					if (pending.size === 0 || !page.pageInfo?.hasNextPage) break;
+					after = page.pageInfo.endCursor ?? undefined;
 				}
-				nodesByHandle.set(node.handle, node.id);
-			}
-
-			let resolvedCount = 0;
-			let failedCount = 0;
-			for (const { ref, handle } of collections) {
-				const id = nodesByHandle.get(handle) ?? null;
-				results.set(ref, id);
-				if (id) resolvedCount++;
-				else failedCount++;
-			}
-
-			console.log(`Collections bulk resolve: ${resolvedCount} resolved, ${failedCount} failed out of ${collections.length} requested`);
-			return { resolved: resolvedCount, failed: failedCount };
-		} catch (error) {
-			console.error(`Error in collections bulk resolve:`, error);
-			// Mark all as failed
-			for (const { ref } of collections) {
-				results.set(ref, null);
+			} catch (error) {
+				// The exact lookups below pick up whatever this chunk missed
+				console.error(`Error in ${label} bulk resolve chunk ${c + 1}/${chunks.length}:`, error);
 			}
-			throw error;
 		}
-	}
 
-	private async resolvePagesBulk(pages: Array<{ ref: HandleRef; handle: string }>, results: Map<HandleRef, string | null>): Promise<{ resolved: number; failed: number }> {
-		if (pages.length === 0) return { resolved: 0, failed: 0 };
-
-		try {
-			const handleQuery = pages.map(p => `handle:${p.handle}`).join(' OR ');
-			const res = await this.client.request<{ pages: { nodes: Array<{ id: string; handle: string }> } }>(
-				Q_PAGES_BULK, 
-				{ query: handleQuery }
-			);
-
-			// Check for GraphQL errors
-			if (res.errors && res.errors.length > 0) {
-				const errorMsg = res.errors.map(e => e.message).join('; ');
-				throw new Error(`GraphQL errors in pages bulk resolve: ${errorMsg}`);
-			}
-
-			// Validate response structure
-			if (!res.data?.pages?.nodes) {
-				throw new Error(`Invalid response structure for pages bulk resolve: ${JSON.stringify(res.data)}`);
+		const missing = handles.filter(h => !nodesByHandle.has(h));
+		for (let i = 0; i < missing.length; i += 1) {
+			const handle = missing[i];
+			onChunkProgress?.({ message: `Exact lookup for ${label} ${i + 1}/${missing.length}: ${handle}`, apiCalls, resolved: nodesByHandle.size, failed: i });
+			try {
+				const id = await this.lookupExactHandle(kind, handle);
+				apiCalls++;
+				if (id) nodesByHandle.set(handle, id);
+			} catch (error) {
+				console.error(`Error in exact ${label} lookup for ${handle}:`, error);
 			}
+		}
 
-			const nodesByHandle = new Map<string, string>();
-			for (const node of res.data.pages.nodes) {
-				if (!node.id || !node.handle) {
-					console.warn(`Invalid page node in bulk resolve:`, node);
-					continue;
-				}
-				nodesByHandle.set(node.handle, node.id);
-			}
+		let resolvedCount = 0;
+		let failedCount = 0;
+		for (const { ref, handle } of items) {
+			const id = nodesByHandle.get(handle) ?? null;
+			results.set(ref, id);
+			if (id) resolvedCount++;
+			else failedCount++;
+		}
 
-			let resolvedCount = 0;
-			let failedCount = 0;
-			for (const { ref, handle } of pages) {
-				const id = nodesByHandle.get(handle) ?? null;
-				results.set(ref, id);
-				if (id) resolvedCount++;
-				else failedCount++;
-			}
+		console.log(`${label[0].toUpperCase()}${label.slice(1)} bulk resolve: ${resolvedCount} resolved, ${failedCount} failed out of ${items.length} requested (${apiCalls} API calls)`);
+		return { resolved: resolvedCount, failed: failedCount, apiCalls };
+	}
 
-			console.log(`Pages bulk resolve: ${resolvedCount} resolved, ${failedCount} failed out of ${pages.length} requested`);
-			return { resolved: resolvedCount, failed: failedCount };
-		} catch (error) {
-			console.error(`Error in pages bulk resolve:`, error);
-			// Mark all as failed
-			for (const { ref } of pages) {
-				results.set(ref, null);
-			}
-			throw error;
+	private async lookupExactHandle(kind: SearchKind, handle: string): Promise<string | null> {
+		if (kind === 'products') {
+			const res = await this.client.request<{ productByHandle: { id: string } | null }>(Q_PRODUCT_ID, { handle });
+			return res.data?.productByHandle?.id ?? null;
 		}
+		if (kind === 'collections') {
+			const res = await this.client.request<{ collectionByHandle: { id: string } | null }>(Q_COLLECTION_ID, { handle });
+			return res.data?.collectionByHandle?.id ?? null;
+		}
+		// Pages have no ByHandle query; a single-handle search is the closest exact lookup
+		const res = await this.client.request<{ pages: { nodes: Array<{ id: string; handle: string }> } }>(Q_PAGE_ID, { q: `handle:${handle}` });
+		return res.data?.pages?.nodes?.find(n => n.handle === handle)?.id ?? null;
 	}
 
-	private async resolveMetaobjectsBulk(metaobjectsByType: Map<string, Array<{ ref: HandleRef; handle: string }>>, results: Map<HandleRef, string | null>): Promise<{ resolved: number; failed: number }> {
+	private async resolveMetaobjectsBulk(metaobjectsByType: Map<string, Array<{ ref: HandleRef; handle: string }>>, results: Map<HandleRef, string | null>): Promise<{ resolved: number; failed: number; apiCalls: number }> {
 		let totalResolvedCount = 0;
 		let totalFailedCount = 0;
+		let apiCalls = 0;
 
 		for (const [type, metaobjects] of metaobjectsByType) {
 			if (metaobjects.length === 0) continue;
 
 			try {
-				const res = await this.client.request<{ metaobjects: { nodes: Array<{ id: string; handle: string; type: string }> } }>(
-					Q_METAOBJECTS_BY_TYPE, 
-					{ type }
-				);
-
-				// Check for GraphQL errors
-				if (res.errors && res.errors.length > 0) {
-					const errorMsg = res.errors.map(e => e.message).join('; ');
-					throw new Error(`GraphQL errors in metaobjects bulk resolve for type ${type}: ${errorMsg}`);
-				}
-
-				// Validate response structure
-				if (!res.data?.metaobjects?.nodes) {
-					throw new Error(`Invalid response structure for metaobjects bulk resolve (type: ${type}): ${JSON.stringify(res.data)}`);
-				}
-
-				const nodesByHandle = new Map<string, string>();
-				for (const node of res.data.metaobjects.nodes) {
-					if (!node.id || !node.handle || !node.type) {
-						console.warn(`Invalid metaobject node in bulk resolve:`, node);
-						continue;
-					}
-					if (normaliseMetaobjectType(node.type) === type) {
-						nodesByHandle.set(node.handle, node.id);
-					}
+				const wanted = new Set(metaobjects.map(m => m.handle));
+				let scan = false;
+				if (wanted.size > METAOBJECT_ALIAS_LOOKUP_LIMIT) {
+					const count = await this.countMetaobjectsOfType(type);
+					apiCalls++;
+					scan = count !== null && Math.ceil(count / METAOBJECT_SCAN_PAGE_SIZE) < Math.ceil(wanted.size / METAOBJECT_ALIAS_CHUNK_SIZE);
 				}
+				const lookup = scan
+					? await this.scanMetaobjectsOfType(type, wanted)
+					: await this.lookupMetaobjectsByHandle(type, Array.from(wanted));
+				apiCalls += lookup.apiCalls;
+				const nodesByHandle = lookup.ids;
 
 				let resolvedCount = 0;
 				let failedCount = 0;
@@ -552,7 +554,82 @@ export class BulkHandleResolver {
 			}
 		}
 
-		return { resolved: totalResolvedCount, failed: totalFailedCount };
+		return { resolved: totalResolvedCount, failed: totalFailedCount, apiCalls };
+	}
+
+	private async lookupMetaobjectsByHandle(type: string, handles: string[]): Promise<{ ids: Map<string, string>; apiCalls: number }> {
+		const ids = new Map<string, string>();
+		let apiCalls = 0;
+		for (let i = 0; i < handles.length; i += METAOBJECT_ALIAS_CHUNK_SIZE) {
+			const chunk = handles.slice(i, i + METAOBJECT_ALIAS_CHUNK_SIZE);
+			const variables: Record<string, unknown> = { type };
+			chunk.forEach((h, idx) => { variables[`h${idx}`] = h; });
+			const res = await this.client.request<Record<string, { id: string; handle: string; type: string } | null>>(buildMetaobjectsByHandleQuery(chunk.length), variables);
+			apiCalls++;
+
+			// Check for GraphQL errors
+			if (res.errors && res.errors.length > 0) {
+				const errorMsg = res.errors.map(e => e.message).join('; ');
+				throw new Error(`GraphQL errors in metaobjects bulk resolve for type ${type}: ${errorMsg}`);
+			}
+			if (!res.data) {
+				throw new Error(`Invalid response structure for metaobjects bulk resolve (type: ${type}): ${JSON.stringify(res.data)}`);
+			}
+
+			chunk.forEach((h, idx) => {
+				const node = res.data?.[`m${idx}`];
+				if (node?.id) ids.set(h, node.id);
+			});
+		}
+		return { ids, apiCalls };
+	}
+
+	// Null when the definition is missing or the count can't be read; the caller then falls back to exact lookups
+	private async countMetaobjectsOfType(type: string): Promise<number | null> {
+		const res = await this.client.request<{ metaobjectDefinitionByType: { metaobjectsCount: number } | null }>(Q_METAOBJECT_COUNT, { type });
+		const count = res.data?.metaobjectDefinitionByType?.metaobjectsCount;
+		return typeof count === 'number' ? count : null;
+	}
+
+	// Pages through every entry of the type, stopping early once all wanted handles are found
+	private async scanMetaobjectsOfType(type: string, wanted: Set<string>): Promise<{ ids: Map<string, string>; apiCalls: number }> {
+		const ids = new Map<string, string>();
+		let apiCalls = 0;
+		let after: string | undefined = undefined;
+
+		while (true) {
+			const res: GraphQLResponse<{ metaobjects: { pageInfo: { hasNextPage: boolean; endCursor?: string }; nodes: Array<{ id: string; handle: string; type: string }> } }> = await this.client.request(
+				Q_METAOBJECTS_BY_TYPE,
+				{ type, first: METAOBJECT_SCAN_PAGE_SIZE, after }
+			);
+			apiCalls++;
+
+			// Check for GraphQL errors
+			if (res.errors && res.errors.length > 0) {
+				const errorMsg = res.errors.map(e => e.message).join('; ');
+				throw new Error(`GraphQL errors in metaobjects bulk resolve for type ${type}: ${errorMsg}`);
+			}
+
+			// Validate response structure
+			const page = res.data?.metaobjects;
+			if (!page?.nodes) {
+				throw new Error(`Invalid response structure for metaobjects bulk resolve (type: ${type}): ${JSON.stringify(res.data)}`);
+			}
+
+			for (const node of page.nodes) {
+				if (!node.id || !node.handle || !node.type) {
+					console.warn(`Invalid metaobject node in bulk resolve:`, node);
+					continue;
+				}
+				if (normaliseMetaobjectType(node.type) === type && wanted.has(node.handle)) {
+					ids.set(node.handle, node.id);
+				}
+			}
+
+			if (ids.size >= wanted.size || !page.pageInfo?.hasNextPage) break;
+			after = page.pageInfo.endCursor ?? undefined;
+		}
+		return { ids, apiCalls };
 	}
 
 	private async resolveProductVariantsBulk(variants: Array<{ ref: HandleRef; productHandle: string; sku: string }>, results: Map<HandleRef, string | null>, onVariantProgress?: (progress: { message?: string; apiCalls: number; resolved: number; failed: number }) => void): Promise<{ resolved: number; failed: number }> {
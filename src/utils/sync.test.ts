@@ -0,0 +1,122 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { runSync } from '@utils/sync';
+import { readImportJournal } from '@utils/importJournal';
+import { parseExportFile } from '@utils/schema';
+import { FakeShopifyClient } from '@utils/shopify/fakeClient';
+
+const dirs: string[] = [];
+after(() => { for (const dir of dirs) fs.rmSync(dir, { recursive: true, force: true }); });
+
+type Ref = [type: string, handle: string];
+
+// A source entry whose `related` field lists the given metaobjects
+const node = (type: string, handle: string, refs: Ref[] = []) => ({
+	id: `gid://shopify/Metaobject/${handle}`,
+	handle,
+	type,
+	fields: [{
+		key: 'related',
+		type: 'list.metaobject_reference',
+		value: JSON.stringify(refs.map(([, h]) => `gid://shopify/Metaobject/${h}`)),
+		jsonValue: null,
+		reference: null,
+		references: { pageInfo: { hasNextPage: false }, nodes: refs.map(([t, h]) => ({ __typename: 'Metaobject', id: `gid://shopify/Metaobject/${h}`, handle: h, type: t })) },
+	}],
+	referencedBy: null,
+});
+
+// Pages of source entries per type; reads and target writes go to one log so their interleaving shows.
+// Upserts of the `rejected` handle fail
+function stores(pages: Record<string, Array<ReturnType<typeof node>[]>>, rejected?: string): { source: FakeShopifyClient; target: FakeShopifyClient; log: string[] } {
+	const log: string[] = [];
+	const source = new FakeShopifyClient({
+		MetaobjectDefinitionByType: () => ({ data: { metaobjectDefinitionByType: null } }),
+		MetaobjectsPage: ({ variables }) => {
+			const type = variables.type as string;
+			const page = variables.after ? Number(variables.after) : 0;
+			log.push(`read ${type} page ${page + 1}`);
+			return { data: { metaobjects: { pageInfo: { hasNextPage: page + 1 < pages[type].length, endCursor: String(page + 1) }, nodes: pages[type][page] } } };
+		},
+	});
+	const created = new Map<string, string>();
+	const target = new FakeShopifyClient({
+		MetaobjectsByHandle: ({ variables }) => {
+			const data: Record<string, unknown> = {};
+			for (const [key, handle] of Object.entries(variables)) {
+				if (key === 'type') continue;
+				const id = created.get(`${variables.type as string}/${handle as string}`);
+				data[`m${key.slice(1)}`] = id ? { id, handle, type: variables.type } : null;
+			}
+			return { data };
+		},
+		MetaobjectFieldValuesByHandle: () => ({ data: { metaobjectByHandle: null } }),
+		UpsertMetaobject: ({ variables }) => {
+			const { type, handle } = variables.handle as { type: string; handle: string };
+			const fields = (variables.input as { fields: Array<{ key: string; value: string }> }).fields;
+			log.push(`write ${handle}${fields.length > 0 ? ` ${fields.map(f => f.value).join(' ')}` : ''}`);
+			if (handle === rejected) return { data: { metaobjectUpsert: { metaobject: null, userErrors: [{ message: 'Value is invalid' }] } } };
+			created.set(`${type}/${handle}`, `gid://target/${handle}`);
+			return { data: { metaobjectUpsert: { metaobject: { id: `gid://target/${handle}` }, userErrors: [] } } };
+		},
+	});
+	return { source, target, log };
+}
+
+test('pages are imported as they are read, each entry after the synced entries it references', async () => {
+	const cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'sync-test-'));
+	dirs.push(cwd);
+	const { source, target, log } = stores({
+		recipe: [[node('recipe', 'soup', [['recipe', 'pie'], ['ingredient', 'leek']]), node('recipe', 'stew')], [node('recipe', 'pie')]],
+		ingredient: [[node('ingredient', 'leek')]],
+	});
+	const result = await runSync(source, target, { cwd, sourceEnvName: '.env.staging', targetEnvName: '.env.production', types: ['recipe', 'ingredient'] });
+
+	assert.deepEqual(log, [
+		'read recipe page 1',
+		'write stew',
+		'read recipe page 2',
+		'write pie',
+		'read ingredient page 1',
+		'write leek',
+		'write soup ["gid://target/pie","gid://target/leek"]',
+	]);
+	// The audit file is in import order, so the results and the journal line up with it
+	const { file } = parseExportFile(fs.readFileSync(result.exportPath, 'utf8'));
+	assert.deepEqual(file.entries.map(e => e.handle), ['stew', 'pie', 'leek', 'soup']);
+	const results = JSON.parse(fs.readFileSync(result.resultsPath, 'utf8')) as { results: Array<{ index: number; handle: string; status: string }> };
+	assert.deepEqual(results.results.map(r => `${r.index} ${r.handle} ${r.status}`), ['0 stew success', '1 pie success', '2 leek success', '3 soup success']);
+	assert.equal(readImportJournal(result.journalPath).header.source, path.basename(result.exportPath));
+});
+
+test('entries referencing each other are imported together once the source is read', async () => {
+	const cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'sync-test-'));
+	dirs.push(cwd);
+	const { source, target, log } = stores({
+		recipe: [[node('recipe', 'soup', [['recipe', 'stew']])], [node('recipe', 'stew', [['recipe', 'soup']])]],
+	});
+	await runSync(source, target, { cwd, sourceEnvName: '.env.staging', targetEnvName: '.env.production', types: ['recipe'] });
+
+	// Like a file import, the first of the cycle is written without the entry it is still waiting for
+	assert.deepEqual(log, ['read recipe page 1', 'read recipe page 2', 'write soup', 'write stew ["gid://target/soup"]']);
+});
+
+test('a failed import stops reading the source and still writes the export and results', async () => {
+	const cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'sync-test-'));
+	dirs.push(cwd);
+	const { source, target, log } = stores({
+		recipe: [[node('recipe', 'soup', [['recipe', 'pie']]), node('recipe', 'stew')], [node('recipe', 'pie')]],
+	}, 'stew');
+	await assert.rejects(runSync(source, target, { cwd, sourceEnvName: '.env.staging', targetEnvName: '.env.production', types: ['recipe'] }), /Failed to upsert recipe\/stew: Value is invalid/);
+
+	assert.deepEqual(log, ['read recipe page 1', 'write stew']);
+	const outputs = fs.readdirSync(path.join(cwd, 'outputs'));
+	const exportName = outputs.find(n => n.startsWith('.env.staging-recipe-'));
+	assert.match(exportName ?? '', /-partial\.json$/);
+	const resultsName = outputs.find(n => n.includes('-import-results-'))!;
+	const results = JSON.parse(fs.readFileSync(path.join(cwd, 'outputs', resultsName), 'utf8')) as { results: Array<{ handle: string; status: string }> };
+	assert.deepEqual(results.results.map(r => `${r.handle} ${r.status}`), ['stew failed', 'soup pending']);
+});
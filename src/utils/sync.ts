@@ -0,0 +1,186 @@
+import { CancelledError, ShopifyGraphQLClient } from '@utils/shopify/client';
+import { buildExport, writeExportFile, type ExportProgress } from '@utils/exporter';
+import { collectAllHandleReferences, runImport, type ConflictPolicy, type ConflictSkipReason, type ImportProgress } from '@utils/importer';
+import { buildImportResults, writeImportResults } from '@utils/importResults';
+import { createImportJournal, type ImportJournal } from '@utils/importJournal';
+import { normaliseMetaobjectType, type ExportEntry, type ExportFile, type MetaobjectDefinitionExport } from '@utils/schema';
+
+export type SyncOptions = {
+	cwd: string;
+	sourceEnvName: string; // e.g. .env.staging
+	targetEnvName: string;
+	types: string[];
+	includeBackReferences?: boolean;
+	skipOnError?: boolean;
+	conflictPolicy?: ConflictPolicy;
+	concurrency?: number;
+	onExportProgress?: (p: ExportProgress) => void;
+	onImportProgress?: (p: ImportProgress) => void;
+	signal?: AbortSignal;
+};
+
+export type SyncResult = {
+	exportPath: string; // intermediate export, kept for auditing
+	resultsPath: string;
+	journalPath: string;
+};
+
+// Exports the types from the source store and streams each page of entries into the import on the target.
+// Definitions are applied before the first page; an entry waits until the entries it references from the
+// synced types have been imported (or turn out not to be in the source), and reference cycles are imported
+// together once the source has been read. The export file is written alongside the import results, in the
+// order the entries were imported so the results file lines up with it for a resume or rollback.
+export async function runSync(source: ShopifyGraphQLClient, target: ShopifyGraphQLClient, opts: SyncOptions): Promise<SyncResult> {
+	if (opts.sourceEnvName === opts.targetEnvName) throw new Error('Source and target environments must differ');
+	const journal = createImportJournal(opts.cwd, { environment: opts.targetEnvName });
+	const startedAt = new Date();
+	const sync = createSyncImport(target, opts, journal);
+	// The first error from the import; it stops the export at its next page, which reports that as a cancellation
+	let importError: unknown;
+	const feed = async (run: () => Promise<void>) => {
+		try {
+			await run();
+		} catch (err) {
+			importError ??= err;
+			throw new CancelledError();
+		}
+	};
+	const exportOpts = {
+		cwd: opts.cwd,
+		environmentFileName: opts.sourceEnvName,
+		types: opts.types,
+		// Ids differ between stores, so references travel as handles
+		retainIds: false,
+		includeBackReferences: opts.includeBackReferences,
+		onProgress: opts.onExportProgress,
+		signal: opts.signal,
+		onDefinitions: (definitions: MetaobjectDefinitionExport[]) => feed(() => sync.definitions(definitions)),
+		onEntries: (entries: ExportEntry[], type: string) => feed(() => sync.page(entries, type))
+	};
+	const persist = (entries: ExportEntry[]) => writeImportResults(opts.cwd, buildImportResults({
+		environment: opts.targetEnvName,
+		startedAt,
+		finishedAt: new Date(),
+		entries,
+		completionStatus: sync.completionStatus,
+		results: sync.results,
+		conflictPolicy: opts.conflictPolicy,
+		conflictSkips: sync.conflictSkips
+	}));
+
+	let file: ExportFile;
+	try {
+		file = await buildExport(source, exportOpts);
+	} catch (err) {
+		// The results file is what a later resume or rollback starts from
+		persist(sync.imported);
+		throw err;
+	}
+	if (!file.partial) await sync.finish().catch((err: unknown) => { importError = err; });
+	// Entries never handed to the import follow the imported ones and are pending in the results
+	const importedKeys = new Set(sync.imported.map(entryRef));
+	const entries = sync.imported.concat(file.entries.filter(e => !importedKeys.has(entryRef(e))));
+	const exportPath = writeExportFile(exportOpts, { ...file, entries });
+	journal.setSource(exportPath.split(/[\\/]/).pop() ?? exportPath);
+	const resultsPath = persist(entries);
+	if (importError !== undefined && !(importError instanceof CancelledError)) throw importError;
+	if (file.partial || importError !== undefined) throw new CancelledError(`Sync from ${opts.sourceEnvName} cancelled; export saved to ${exportPath}`);
+	return { exportPath, resultsPath, journalPath: journal.path };
+}
+
+// Holds entries back until what they reference is in the target, and imports the rest in batches whose
+// indices continue from the previous batch so progress and results cover the whole run
+function createSyncImport(target: ShopifyGraphQLClient, opts: SyncOptions, journal: ImportJournal) {
+	const imported: ExportEntry[] = [];
+	const importedRefs = new Set<string>();
+	const completionStatus: NonNullable<ImportProgress['entryCompletionStatus']> = new Map();
+	const results = new Map<number, { status: 'success' | 'skipped' | 'failed'; error?: string }>();
+	const conflictSkips = new Map<number, ConflictSkipReason>();
+	const syncedTypes = opts.types.map(normaliseMetaobjectType);
+	let held: ExportEntry[] = [];
+	let doneTypes = new Set<string>();
+
+	const importBatch = async (batch: { entries: ExportEntry[]; definitions?: MetaobjectDefinitionExport[] }) => {
+		const offset = imported.length;
+		imported.push(...batch.entries);
+		for (const e of batch.entries) importedRefs.add(entryRef(e));
+		// runImport keeps updating this map, also after its last progress event when an entry fails
+		let batchStatus: ImportProgress['entryCompletionStatus'];
+		const copyStatus = () => { for (const [i, status] of batchStatus ?? []) completionStatus.set(offset + i, status); };
+		await runImport(target, { environment: opts.sourceEnvName, count: batch.entries.length, ...batch }, {
+			skipOnError: opts.skipOnError,
+			conflictPolicy: opts.conflictPolicy,
+			concurrency: opts.concurrency,
+			signal: opts.signal,
+			journal,
+			onProgress: (p) => {
+				const index = offset + p.index;
+				if (p.entryCompletionStatus) batchStatus = p.entryCompletionStatus;
+				copyStatus();
+				if (p.conflictSkip) conflictSkips.set(index, p.conflictSkip);
+				if (p.error && (p.phase === 'metaobjects' || (p.phase === 'backreferences' && p.current))) results.set(index, { status: p.message?.startsWith('Skipped') ? 'skipped' : 'failed', error: p.error });
+				opts.onImportProgress?.({ ...p, index, total: imported.length, entryCompletionStatus: completionStatus });
+			}
+		}).finally(copyStatus);
+	};
+
+	// A ref waits while its entry is held, or while its type may still be read from the source
+	const waitsOn = (ref: string, self: string, batch: Set<string>, heldRefs: Set<string>) => {
+		if (ref === self || importedRefs.has(ref) || batch.has(ref)) return false;
+		const type = metaobjectRefType(ref);
+		if (type === undefined || !syncedTypes.includes(type)) return false;
+		return heldRefs.has(ref) || !doneTypes.has(type);
+	};
+
+	const release = async (final: boolean) => {
+		const heldRefs = new Set(held.map(entryRef));
+		const batch: ExportEntry[] = [];
+		const batchRefs = new Set<string>();
+		let released = true;
+		while (released) {
+			released = false;
+			for (const e of held) {
+				const ref = entryRef(e);
+				if (batchRefs.has(ref)) continue;
+				if (collectAllHandleReferences([e]).some(r => waitsOn(r, ref, batchRefs, heldRefs))) continue;
+				batch.push(e);
+				batchRefs.add(ref);
+				released = true;
+			}
+		}
+		// Whatever is still held is part of a reference cycle; the import orders it like a file import
+		if (final) for (const e of held) if (!batchRefs.has(entryRef(e))) { batch.push(e); batchRefs.add(entryRef(e)); }
+		held = held.filter(e => !batchRefs.has(entryRef(e)));
+		if (batch.length > 0) await importBatch({ entries: batch });
+	};
+
+	return {
+		imported,
+		completionStatus,
+		results,
+		conflictSkips,
+		definitions: async (definitions: MetaobjectDefinitionExport[]) => {
+			if (definitions.length > 0) await importBatch({ entries: [], definitions });
+		},
+		page: async (entries: ExportEntry[], type: string) => {
+			// Types are read in order, so every synced type before this one is complete
+			doneTypes = new Set(syncedTypes.slice(0, syncedTypes.indexOf(normaliseMetaobjectType(type))));
+			held = held.concat(entries);
+			await release(false);
+		},
+		finish: async () => {
+			doneTypes = new Set(syncedTypes);
+			await release(true);
+		}
+	};
+}
+
+function entryRef(e: ExportEntry): string {
+	return `handle://shopify/Metaobject/${e.type}/${e.handle}`;
+}
+
+// handle://shopify/Metaobject/<type>/<handle> → type; undefined for other resources
+function metaobjectRefType(ref: string): string | undefined {
+	const match = /^handle:\/\/shopify\/Metaobject\/([^/]+)\//.exec(ref);
+	return match?.[1];
+}